@@ -0,0 +1,168 @@
+// src/applyBundle.ts
+import * as vscode from 'vscode';
+import { isLineRangePath, parseBundle, resolveBundlePath } from './bundleParser';
+import { pathToUri, uriToPath } from './workspaceFileSystem';
+
+const PROPOSED_SCHEME = 'sheafy-proposed';
+
+interface PendingChange {
+    bundlePath: string;
+    uri: vscode.Uri;
+    content: string;
+    isNew: boolean;
+}
+
+/**
+ * Applies a (possibly LLM-edited) bundle back to the workspace: every changed file is shown as
+ * a diff to accept or reject, and the accepted ones are applied as one WorkspaceEdit.
+ */
+export class BundleApplier implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly proposed = new Map<string, string>(); // Proposed contents shown in the diff editor
+    private readonly registration = vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, this);
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.proposed.get(uri.toString()) ?? '';
+    }
+
+    // In multi-root workspaces, paths prefixed with a folder name (see prefix_root_name) go to that folder.
+    private resolveTarget(bundlePath: string, folders: readonly vscode.WorkspaceFolder[]): vscode.Uri | null {
+        const [firstSegment, ...rest] = bundlePath.replace(/\\/g, '/').split('/');
+        const prefixed = folders.length > 1 && rest.length > 0 ? folders.find(folder => folder.name === firstSegment) : undefined;
+        const resolved = prefixed
+            ? resolveBundlePath(uriToPath(prefixed.uri), rest.join('/'))
+            : resolveBundlePath(uriToPath(folders[0].uri), bundlePath);
+        return resolved ? pathToUri(resolved) : null;
+    }
+
+    private async readCurrent(uri: vscode.Uri): Promise<string | null> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            return null; // New file
+        }
+        // Through the document, so unsaved changes are what the bundle is compared against.
+        return (await vscode.workspace.openTextDocument(uri)).getText().replace(/\r\n/g, '\n');
+    }
+
+    private async collectChanges(text: string, folders: readonly vscode.WorkspaceFolder[]): Promise<PendingChange[] | undefined> {
+        let files;
+        try {
+            files = parseBundle(text);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Sheafy: Could not parse the bundle: ${error.message}`);
+            return undefined;
+        }
+        if (files.length === 0) {
+            vscode.window.showWarningMessage('Sheafy: No files found in the bundle. Expected "### path" headings with fenced blocks, or the XML/JSON format.');
+            return undefined;
+        }
+
+        const changes = new Map<string, PendingChange>(); // By target; a later section for the same file wins
+        const rejected: string[] = [];
+        const partial: string[] = [];
+        for (const file of files) {
+            if (isLineRangePath(file.path)) {
+                partial.push(file.path);
+                continue;
+            }
+            const uri = this.resolveTarget(file.path, folders);
+            if (!uri) {
+                rejected.push(file.path);
+                continue;
+            }
+            const current = await this.readCurrent(uri);
+            let content = file.content;
+            // Bundles always end files with a newline; keep a missing final newline as it was.
+            if (current !== null && !current.endsWith('\n') && content.endsWith('\n')) {
+                content = content.slice(0, -1);
+            }
+            if (content !== current) {
+                changes.set(uri.toString(), { bundlePath: file.path, uri, content, isNew: current === null });
+            } else {
+                changes.delete(uri.toString());
+            }
+        }
+        if (rejected.length > 0) {
+            vscode.window.showWarningMessage(`Sheafy: Ignored ${rejected.length} path(s) outside the workspace: ${rejected.join(', ')}`);
+        }
+        if (partial.length > 0) {
+            vscode.window.showWarningMessage(`Sheafy: Ignored ${partial.length} line-range section(s) that only contain part of a file: ${partial.join(', ')}`);
+        }
+        return [...changes.values()];
+    }
+
+    async apply(text: string): Promise<void> {
+        const folders = vscode.workspace.workspaceFolders;
+        if (!folders || folders.length === 0) {
+            vscode.window.showErrorMessage('Sheafy: Open a folder to apply a bundle to.');
+            return;
+        }
+        const changes = await this.collectChanges(text, folders);
+        if (!changes) {
+            return;
+        }
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage('Sheafy: The bundle matches the workspace; nothing to apply.');
+            return;
+        }
+
+        const accepted: PendingChange[] = [];
+        let acceptRest = false;
+        try {
+            for (const [i, change] of changes.entries()) {
+                if (acceptRest) {
+                    accepted.push(change);
+                    continue;
+                }
+                const proposedUri = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: '/' + change.bundlePath, query: `${i}` });
+                const emptyUri = proposedUri.with({ query: `${i}-empty` });
+                this.proposed.set(proposedUri.toString(), change.content);
+                this.proposed.set(emptyUri.toString(), '');
+                const label = change.isNew ? `${change.bundlePath} (new file)` : change.bundlePath;
+                await vscode.commands.executeCommand('vscode.diff', change.isNew ? emptyUri : change.uri, proposedUri,
+                    `${label} ↔ bundle (${i + 1}/${changes.length})`, { preview: true });
+
+                const choice = await vscode.window.showInformationMessage(
+                    `Sheafy: Apply the bundle's version of ${label}? (${i + 1}/${changes.length})`,
+                    'Accept', 'Reject', 'Accept All', 'Cancel'
+                );
+                if (!choice || choice === 'Cancel') {
+                    vscode.window.showInformationMessage('Sheafy: Applying the bundle was cancelled. No files were changed.');
+                    return;
+                }
+                if (choice === 'Accept' || choice === 'Accept All') {
+                    accepted.push(change);
+                }
+                acceptRest = choice === 'Accept All';
+            }
+        } finally {
+            this.proposed.clear();
+        }
+        if (accepted.length === 0) {
+            vscode.window.showInformationMessage('Sheafy: All changes were rejected. No files were changed.');
+            return;
+        }
+
+        // A single edit, so the whole application shows up in (and can be undone from) the editors at once.
+        const edit = new vscode.WorkspaceEdit();
+        for (const change of accepted) {
+            if (change.isNew) {
+                edit.createFile(change.uri, { contents: new TextEncoder().encode(change.content) });
+            } else {
+                const document = await vscode.workspace.openTextDocument(change.uri);
+                const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+                edit.replace(change.uri, fullRange, change.content);
+            }
+        }
+        if (await vscode.workspace.applyEdit(edit)) {
+            const rejectedCount = changes.length - accepted.length;
+            vscode.window.showInformationMessage(`Sheafy: Applied ${accepted.length} file(s) from the bundle${rejectedCount > 0 ? `, rejected ${rejectedCount}` : ''}. Modified files are left unsaved for review.`);
+        } else {
+            vscode.window.showErrorMessage('Sheafy: Could not apply the bundle to the workspace.');
+        }
+    }
+
+    dispose(): void {
+        this.registration.dispose();
+    }
+}
@@ -0,0 +1,108 @@
+// src/budget.ts
+import ignore from 'ignore';
+import { MergedSheafyConfig } from './config';
+import { BudgetReport, CutFile, FileSection } from './types';
+import { byteLength, countLines, estimateTokens, truncateToLimits } from './utils';
+
+export const TRUNCATION_MARKER = '\n... [truncated by Sheafy to fit the token budget] ...';
+
+// Don't bother keeping a truncated stub that has room for less than this.
+const MIN_TRUNCATED_TOKENS = 32;
+
+type BudgetConfig = Pick<MergedSheafyConfig, 'max_tokens' | 'max_bytes' | 'budget_priority' | 'budget_action' | 'priority_patterns_array'>;
+
+function prioritize(sections: FileSection[], config: BudgetConfig): FileSection[] {
+    const patternFilters = config.priority_patterns_array.map(pattern => ignore().add(pattern));
+    const tierOf = (section: FileSection) => {
+        // Files outside the project (explicitly exported) match no pattern.
+        const index = ignore.isPathValid(section.relPath) ? patternFilters.findIndex(filter => filter.ignores(section.relPath)) : -1;
+        return index === -1 ? patternFilters.length : index;
+    };
+    const tiers = new Map(sections.map(section => [section, tierOf(section)]));
+
+    return [...sections].sort((a, b) => {
+        const tierDiff = tiers.get(a)! - tiers.get(b)!;
+        if (tierDiff !== 0) {
+            return tierDiff;
+        }
+        switch (config.budget_priority) {
+            case 'smallest_first': return a.tokens - b.tokens;
+            case 'most_recent': return b.mtimeMs - a.mtimeMs;
+            default: return 0; // Array.prototype.sort is stable, so discovery order is preserved
+        }
+    });
+}
+
+/**
+ * Drops (or truncates) file sections until the bundle fits into `max_tokens` / `max_bytes`.
+ * `overhead` is the bundle rendered without any sections (prologue, epilogue, wrappers) and
+ * `separator` what is placed between sections. Kept sections retain their original order;
+ * `format` re-renders a section from truncated content.
+ */
+export function applyBudget(
+    sections: FileSection[],
+    overhead: string,
+    separator: string,
+    config: BudgetConfig,
+    format: (section: FileSection, content: string) => string
+): { sections: FileSection[]; report: BudgetReport } {
+    const maxTokens = config.max_tokens ?? Infinity;
+    const maxBytes = config.max_bytes ?? Infinity;
+    const separatorBytes = byteLength(separator);
+
+    let usedTokens = estimateTokens(overhead);
+    let usedBytes = byteLength(overhead);
+
+    const kept = new Map<FileSection, FileSection>();
+    const cutFiles: CutFile[] = [];
+
+    for (const section of prioritize(sections, config)) {
+        const sectionBytes = section.bytes + separatorBytes;
+        if (usedTokens + section.tokens <= maxTokens && usedBytes + sectionBytes <= maxBytes) {
+            kept.set(section, section);
+            usedTokens += section.tokens;
+            usedBytes += sectionBytes;
+            continue;
+        }
+
+        if (config.budget_action === 'truncate' && section.note === undefined) {
+            const frame = format(section, TRUNCATION_MARKER); // The section without any content
+            const remainingTokens = maxTokens - usedTokens - estimateTokens(frame);
+            const remainingBytes = maxBytes - usedBytes - byteLength(frame) - separatorBytes;
+            if (remainingTokens >= MIN_TRUNCATED_TOKENS && remainingBytes > 0) {
+                const content = truncateToLimits(section.content!, remainingTokens, remainingBytes) + TRUNCATION_MARKER;
+                const formatted = format(section, content);
+                const truncated: FileSection = {
+                    ...section,
+                    content,
+                    contentBytes: byteLength(content),
+                    contentLines: countLines(content),
+                    formatted,
+                    bytes: byteLength(formatted),
+                    tokens: estimateTokens(formatted),
+                };
+                kept.set(section, truncated);
+                usedTokens += truncated.tokens;
+                usedBytes += truncated.bytes + separatorBytes;
+                cutFiles.push({ relPath: section.relPath, action: 'truncated', tokens: section.tokens });
+                continue;
+            }
+        }
+        cutFiles.push({ relPath: section.relPath, action: 'dropped', tokens: section.tokens });
+    }
+
+    const keptSections = sections
+        .filter(section => kept.has(section))
+        .map(section => kept.get(section)!);
+
+    return {
+        sections: keptSections,
+        report: {
+            maxTokens: config.max_tokens,
+            maxBytes: config.max_bytes,
+            totalTokens: usedTokens,
+            totalBytes: Math.max(0, usedBytes - (keptSections.length > 0 ? separatorBytes : 0)),
+            cutFiles,
+        },
+    };
+}
@@ -0,0 +1,128 @@
+// src/bundleParser.ts
+import * as path from 'path';
+
+export interface BundleFile {
+    path: string; // As written in the bundle, e.g. "src/app.ts"
+    content: string;
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&quot;/g, '"')
+        .replace(/&gt;/g, '>')
+        .replace(/&lt;/g, '<')
+        .replace(/&amp;/g, '&');
+}
+
+// Concatenates the CDATA sections of `text` (split sections encode "]]>"), or unescapes plain text.
+function readXmlText(text: string): string {
+    const sections = [...text.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g)];
+    if (sections.length === 0) {
+        return unescapeXml(text.trim());
+    }
+    return sections.map(section => section[1]).join('');
+}
+
+function parseXmlBundle(text: string): BundleFile[] {
+    const files: BundleFile[] = [];
+    for (const match of text.matchAll(/<document\b([^>]*)>([\s\S]*?)<\/document>/g)) {
+        const attributes = match[1];
+        const filePath = attributes.match(/\bpath="([^"]*)"/);
+        if (!filePath || /\bomitted="true"/.test(attributes)) {
+            continue;
+        }
+        const content = match[2].match(/<content>([\s\S]*?)<\/content>/);
+        files.push({ path: unescapeXml(filePath[1]), content: readXmlText(content ? content[1] : match[2]) });
+    }
+    return files;
+}
+
+function parseJsonBundle(text: string): BundleFile[] {
+    const entries = JSON.parse(text);
+    if (!Array.isArray(entries)) {
+        throw new Error('A JSON bundle must be an array of { path, content } objects.');
+    }
+    return entries
+        .filter(entry => entry && typeof entry.path === 'string' && typeof entry.content === 'string')
+        .map(entry => ({ path: entry.path, content: entry.content }));
+}
+
+/**
+ * Markdown bundles: a `### path` heading followed by a fenced block. Sections without a fence
+ * (skipped files) are ignored, as are further fences under the same heading (appended diffs).
+ */
+function parseMarkdownBundle(text: string): BundleFile[] {
+    const files: BundleFile[] = [];
+    const lines = text.split(/\r?\n/);
+    let i = 0;
+    while (i < lines.length) {
+        const heading = lines[i].match(/^###\s+(.+?)\s*$/);
+        i++;
+        if (!heading) {
+            continue;
+        }
+        while (i < lines.length && lines[i].trim() === '') {
+            i++;
+        }
+        const opening = i < lines.length ? lines[i].match(/^(`{3,}|~{3,})[^`]*$/) : null;
+        if (!opening) {
+            continue;
+        }
+        // As in CommonMark, the closing fence uses the same character and is at least as long.
+        const fenceChar = opening[1][0];
+        const closing = new RegExp(`^\\${fenceChar}{${opening[1].length},}\\s*$`);
+        const body: string[] = [];
+        i++;
+        while (i < lines.length && !closing.test(lines[i])) {
+            body.push(lines[i]);
+            i++;
+        }
+        if (i >= lines.length) {
+            break; // Unterminated fence: the file was cut off
+        }
+        i++;
+        const filePath = heading[1].replace(/^`(.*)`$/, '$1');
+        files.push({ path: filePath, content: body.length > 0 ? body.join('\n') + '\n' : '' });
+    }
+    return files;
+}
+
+/**
+ * Extracts the files from a bundle in Sheafy's markdown (or a heading-based custom template),
+ * XML or JSON format. The format is detected from the text.
+ */
+export function parseBundle(text: string): BundleFile[] {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('[')) {
+        return parseJsonBundle(trimmed);
+    }
+    if (/^<documents\b/.test(trimmed) || /<document\s[^>]*\bpath="/.test(trimmed)) {
+        return parseXmlBundle(trimmed);
+    }
+    return parseMarkdownBundle(text);
+}
+
+/** Whether a bundle path carries a line range (`src/app.ts:10-24`), i.e. is only part of a file. */
+export function isLineRangePath(bundlePath: string): boolean {
+    return /:\d+-\d+$/.test(bundlePath);
+}
+
+/**
+ * Resolves a bundle path against `rootPath`. Returns null for absolute paths, paths that
+ * escape the root and paths inside `.git`.
+ */
+export function resolveBundlePath(rootPath: string, bundlePath: string): string | null {
+    const normalized = bundlePath.replace(/\\/g, '/');
+    if (normalized === '' || path.posix.isAbsolute(normalized) || /^[A-Za-z]:/.test(normalized)) {
+        return null;
+    }
+    const resolved = path.resolve(rootPath, normalized);
+    const relative = path.relative(rootPath, resolved);
+    if (!relative || relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
+        return null;
+    }
+    if (relative.split(path.sep).includes('.git')) {
+        return null;
+    }
+    return resolved;
+}
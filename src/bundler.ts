@@ -0,0 +1,1070 @@
+// src/bundler.ts
+import * as path from 'path';
+import { bundlePartName, MergedSheafyConfig } from './config';
+import { applyBudget } from './budget';
+import { BundleFormatter, createTemplateResolver, getFormatter } from './formats';
+import { BudgetReport, DependencyEdge, ExclusionRule, ExportReport, FileSection, ReportEntry, SecretFinding, SplitLimit } from './types';
+import { byteLength, compareWalkOrder, countLines, createLimiter, estimateTokens, formatBytes, Limiter, mapOrdered, renderTemplate, toPosixPath, truncateToLimits } from './utils';
+import { renderTree, TreeEntry } from './tree';
+import { readFileForExport, SkipReason } from './fileReader';
+import { createPathFilter, enterDirectory, explainIgnored, explainNotIncluded, IgnoreRules, isIgnored, loadIgnoreRules, matchesIncludeRules } from './ignoreRules';
+import { getLastCommit, GitDiffMode } from './gitChanges';
+import { buildSecretRules, redactSecrets } from './redaction';
+import { applyTransforms, createTransformResolver } from './transforms';
+import { FileStat, FileSystem, nodeFileSystem } from './fileSystem';
+
+export interface ExportFileInput {
+    filePath: string; // Absolute path
+    diff?: string; // Unified diff shown alongside or instead of the content, see ExportOptions.diffMode
+    content?: string; // Exported instead of the file on disk, e.g. an unsaved editor buffer
+    lang?: string; // Overrides the language derived from the extension
+    lines?: { start: number; end: number }; // 1-based, inclusive range that `content` covers; shown after the path
+}
+
+export interface ExportOptions {
+    files?: ExportFileInput[]; // Export these files instead of walking the start path
+    applyFilters?: boolean; // Whether `files` are subject to ignore/include rules (default true)
+    diffMode?: GitDiffMode; // 'append' adds each file's diff after its content, 'only' exports just the diff
+    cache?: SectionCache; // Reuses the sections of unchanged files; must be cleared when the configuration changes
+    dependencies?: DependencyEdge[]; // Imports to list in the bundle header, see resolveDependencies
+    concurrency?: number; // Directories and files read at a time (default DEFAULT_CONCURRENCY)
+}
+
+// Reads of remote and virtual workspaces are round trips; a few of them in flight hide most of
+// the latency, and local disks are faster with a queue too.
+export const DEFAULT_CONCURRENCY = 16;
+
+/**
+ * Sections of files read from disk by absolute path, with the mtime and size they were read at.
+ * A file whose mtime and size are unchanged is not read again.
+ */
+export type SectionCache = Map<string, { mtimeMs: number; size: number; section: FileSection; secrets: SecretFinding[] }>;
+
+// Structurally compatible with vscode.Progress and vscode.CancellationToken, so the extension can pass its own.
+export interface ExportProgress {
+    report(value: { message?: string; increment?: number }): void;
+}
+
+export interface CancellationSignal {
+    readonly isCancellationRequested: boolean;
+}
+
+export class ExportCancelledError extends Error {
+    constructor() {
+        super('Export cancelled.');
+    }
+}
+
+const NO_PROGRESS: ExportProgress = { report: () => undefined };
+const NOT_CANCELLED: CancellationSignal = { isCancellationRequested: false };
+
+export interface BundleResult {
+    chunks: string[]; // The rendered bundle in pieces (sections, separators, ...), written to files without joining them; empty if blocked
+    partChunks: string[][]; // The bundle split at split_at, in pieces like `chunks`, or just `chunks` if it fits; empty if blocked
+    readonly output: string; // `chunks` joined, when first read
+    readonly parts: string[]; // `partChunks` joined, when first read
+    files: Array<{ relPath: string; tokens: number; bytes: number }>; // Per-file sizes of the sections that were exported
+    budget: BudgetReport;
+    secrets: SecretFinding[]; // Redacted secrets, or in "block" mode the secrets that blocked the export
+    blocked: boolean; // Not rendered because secret_mode is "block" and secrets were found
+    languageId: string; // Language of the rendered bundle, e.g. "markdown"
+}
+
+/** A path that the directory walk left out, with the rule that excluded it. */
+export interface SkippedPath {
+    path: string; // Absolute
+    isDirectory: boolean;
+    reason: 'ignored' | 'not included';
+    rule: ExclusionRule;
+}
+
+const GIT_DIRECTORY_RULE: ExclusionRule = { source: 'always excluded', pattern: '.git/' };
+
+// The files and excluded paths below a directory, in walk order.
+interface WalkResult {
+    files: string[];
+    skipped: SkippedPath[];
+}
+
+// Subdirectories are walked concurrently, with `limit` bounding the directories read at a time.
+// Their results are put back in place, so the order is the sorted one whichever read finishes
+// first. Pass `explain` to also collect the excluded paths; that costs an extra match per path.
+async function walkDirectory(
+    dirPath: string,
+    inheritedRules: IgnoreRules,
+    limit: Limiter,
+    token: CancellationSignal,
+    explain: boolean
+): Promise<WalkResult> {
+    if (token.isCancellationRequested) {
+        throw new ExportCancelledError();
+    }
+    const listing = await limit(async () => {
+        let entries;
+        try {
+            entries = await inheritedRules.fileSystem.readDirectory(dirPath);
+        } catch (error: any) {
+            console.warn(`Sheafy: Could not read directory ${dirPath}: ${error.message}`);
+            return null;
+        }
+        // Sort so the bundle order doesn't depend on the file system's readdir order.
+        entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+        return { entries, rules: await enterDirectory(inheritedRules, dirPath, new Set(entries.map(entry => entry.name))) };
+    });
+    if (!listing) {
+        return { files: [], skipped: [] };
+    }
+
+    const { entries, rules } = listing;
+    let current: WalkResult = { files: [], skipped: [] }; // Entries since the last subdirectory
+    const results: Array<WalkResult | Promise<WalkResult>> = [current];
+    for (const entry of entries) {
+        const fullPath = path.join(dirPath, entry.name);
+        if (entry.isDirectory) {
+            // Ignored directories are pruned, so (as in git) nothing below them can be re-included.
+            if (entry.name === '.git' || isIgnored(rules, fullPath, true)) {
+                if (explain) {
+                    const rule = entry.name === '.git' ? GIT_DIRECTORY_RULE : explainIgnored(rules, fullPath, true)!;
+                    current.skipped.push({ path: fullPath, isDirectory: true, reason: 'ignored', rule });
+                }
+                continue;
+            }
+            current = { files: [], skipped: [] };
+            results.push(walkDirectory(fullPath, rules, limit, token, explain), current);
+        } else if (!explain) {
+            if (!isIgnored(rules, fullPath, false) && matchesIncludeRules(rules, fullPath)) {
+                current.files.push(fullPath);
+            }
+        } else {
+            const ignoredBy = explainIgnored(rules, fullPath, false);
+            const notIncludedBy = ignoredBy ? null : explainNotIncluded(rules, fullPath);
+            if (ignoredBy) {
+                current.skipped.push({ path: fullPath, isDirectory: false, reason: 'ignored', rule: ignoredBy });
+            } else if (notIncludedBy) {
+                current.skipped.push({ path: fullPath, isDirectory: false, reason: 'not included', rule: notIncludedBy });
+            } else {
+                current.files.push(fullPath);
+            }
+        }
+    }
+    const walked = await Promise.all(results);
+    return { files: walked.flatMap(result => result.files), skipped: walked.flatMap(result => result.skipped) };
+}
+
+/**
+ * Lists the files below `startPath` that pass the ignore layers and include rules, in sorted order.
+ * Excluded files and pruned directories are added to `skipped` if given.
+ */
+export async function discoverFiles(
+    startPath: string,
+    config: MergedSheafyConfig,
+    token: CancellationSignal = NOT_CANCELLED,
+    skipped?: SkippedPath[],
+    concurrency = DEFAULT_CONCURRENCY
+): Promise<string[]> {
+    const rules = await loadIgnoreRules(config, startPath);
+    const walked = await walkDirectory(startPath, rules, createLimiter(concurrency), token, skipped !== undefined);
+    if (skipped) {
+        walked.skipped.forEach(skippedPath => skipped.push(skippedPath));
+    }
+    return walked.files;
+}
+
+/**
+ * The language id of `filePath`: from `languageMap` (language_map in sheafy.toml, keyed by
+ * extension or whole file name), then from the built-in table, else the extension itself.
+ */
+export function getLanguageId(filePath: string, languageMap: { [key: string]: string } = {}): string {
+    const extension = path.extname(filePath).substring(1).toLowerCase();
+    const mapped = languageMap[path.basename(filePath).toLowerCase()] ?? languageMap[extension];
+    if (mapped) {
+        return mapped;
+    }
+    const langMap: { [key: string]: string } = {
+        ts: 'typescript', tsx: 'typescriptreact',
+        js: 'javascript', jsx: 'javascriptreact',
+        py: 'python', java: 'java', cs: 'csharp',
+        cpp: 'cpp', h: 'cpp', hpp: 'cpp', c: 'c',
+        go: 'go', rb: 'ruby', php: 'php',
+        html: 'html', htm: 'html', css: 'css',
+        scss: 'scss', sass: 'sass', less: 'less',
+        json: 'json', xml: 'xml', md: 'markdown',
+        sh: 'shellscript', bash: 'shellscript', zsh: 'shellscript',
+        yaml: 'yaml', yml: 'yaml', toml: 'toml',
+        sql: 'sql', swift: 'swift', kt: 'kotlin',
+        rs: 'rust', lua: 'lua', pl: 'perl',
+        scala: 'scala', vb: 'vb', dart: 'dart',
+        dockerfile: 'dockerfile', graphql: 'graphql',
+        vue: 'vue', svelte: 'svelte',
+    };
+    return langMap[extension] || extension || 'plaintext';
+}
+
+
+export interface ExportRoot {
+    config: MergedSheafyConfig; // The root's own configuration (ignore rules, filters, file options)
+    options?: ExportOptions;
+}
+
+/** A file left out of the bundle without a note, because skipped_file_template is empty. */
+interface OmittedFile {
+    relPath: string;
+    reason: SkipReason;
+    size: number;
+}
+
+// What reading one file added to the bundle.
+interface ProcessedFile {
+    section?: FileSection;
+    secrets: SecretFinding[];
+    omitted?: OmittedFile;
+}
+
+/**
+ * Reports the bytes read as `share` of the progress bar, with the amount read as the message.
+ * The bar moves in steps of at least one percent, so that tens of thousands of small files
+ * don't flood it. If there is nothing to read (only empty files), each file counts the same.
+ * Until `totalBytes` is known, reads are counted but not reported.
+ */
+function createByteProgress(progress: ExportProgress, share: number, totalBytes: Promise<number>, totalFiles: number): (bytes: number) => void {
+    let total: number | undefined;
+    let bytesDone = 0;
+    let filesDone = 0;
+    let reported = 0;
+    const update = () => {
+        if (total === undefined) {
+            return;
+        }
+        const increment = share * (total > 0 ? bytesDone / total : filesDone / totalFiles) - reported;
+        if (increment >= 1 || (filesDone === totalFiles && increment > 0)) {
+            reported += increment;
+            progress.report({
+                increment,
+                message: total > 0 ? `Read ${formatBytes(bytesDone)} of ${formatBytes(total)}...` : `Read ${filesDone} of ${totalFiles} files...`,
+            });
+        }
+    };
+    totalBytes.then(bytes => {
+        total = bytes;
+        update();
+    }, () => undefined); // A failed stat counts as nothing to read
+    return bytes => {
+        bytesDone += bytes;
+        filesDone++;
+        update();
+    };
+}
+
+/**
+ * The files to export from `startPath`: `options.files` that pass the filters, or the files of
+ * the directory walk. Paths excluded by the walk are added to `skipped` if given.
+ */
+async function listInputs(
+    startPath: string,
+    config: MergedSheafyConfig,
+    token: CancellationSignal,
+    options: ExportOptions,
+    skipped?: SkippedPath[]
+): Promise<ExportFileInput[]> {
+    try {
+        const stat = await config.fileSystem.stat(startPath);
+        if (!stat.isDirectory) {
+            throw new Error(`Start path '${startPath}' is not a directory.`);
+        }
+        if (options.files && options.applyFilters === false) {
+            return options.files;
+        } else if (options.files) {
+            const passesFilters = await createPathFilter(config);
+            const inputs: ExportFileInput[] = [];
+            for (const file of options.files) {
+                if (await passesFilters(file.filePath)) {
+                    inputs.push(file);
+                }
+            }
+            return inputs;
+        }
+        return (await discoverFiles(startPath, config, token, skipped, options.concurrency)).map(filePath => ({ filePath }));
+    } catch (error: any) {
+        if (error instanceof ExportCancelledError) throw error;
+        throw new Error(`Error accessing start path ${startPath}: ${error.message}`);
+    }
+}
+
+/**
+ * Whether sections must keep their content after formatting: only truncating to the budget and
+ * cutting sections at split_at go back to it. Otherwise it is dropped, so a bundle holds each
+ * file's text once, formatted.
+ */
+function needsSectionContent(config: MergedSheafyConfig): boolean {
+    return config.split_at !== null || (config.budget_action === 'truncate' && (config.max_tokens !== null || config.max_bytes !== null));
+}
+
+/**
+ * Reads, redacts and formats `inputs` of one root, `options.concurrency` files at a time, and
+ * yields them in the order of `inputs` whichever read finishes first. Reads run only a little
+ * ahead of the consumer, so one that writes each section out holds few of them at a time.
+ * Stats run ahead of the reads: their sizes weigh the progress bar, of which this root may
+ * report `progressShare`, and the section cache and the reads reuse them.
+ */
+async function* readSections(
+    startPath: string,
+    inputs: ExportFileInput[],
+    config: MergedSheafyConfig,
+    formatter: BundleFormatter,
+    progress: ExportProgress,
+    token: CancellationSignal,
+    options: ExportOptions,
+    progressShare: number,
+    keepContent: boolean
+): AsyncGenerator<ProcessedFile> {
+    progress.report({ message: `Found ${inputs.length} files. Reading...` });
+    if (token.isCancellationRequested) throw new ExportCancelledError();
+
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    const secretRules = config.secret_mode === 'off' ? null : buildSecretRules(config.secret_detectors, config.secret_patterns);
+    const diffMode = options.diffMode ?? 'none';
+    const resolveTransforms = createTransformResolver(config.transforms, config.transform_rules);
+    const resolveTemplate = createTemplateResolver(config.template_rules);
+    // Running git for every file is only worth it if a template shows the last commit, and git
+    // can only run on files of this machine.
+    const templates = [config.format === 'custom' ? config.exportFormatTemplate : '', ...config.template_rules.map(rule => rule.template)];
+    const needsLastCommit = config.fileSystem.isLocal && templates.some(template => template.includes('{git_last_commit}'));
+    const isFolderExportFromSubdirectory = (startPath !== config.basePath);
+    const rootPrefix = config.prefix_root_name ? `${config.root_name}/` : '';
+
+    const statLimit = createLimiter(concurrency);
+    const stats = inputs.map(input => input.content !== undefined || diffMode === 'only'
+        ? Promise.resolve(null)
+        : statLimit(async () => token.isCancellationRequested ? null : config.fileSystem.stat(input.filePath)).catch(() => null)); // A failed stat is reported by the read
+    const bytesToRead = async (input: ExportFileInput, statPromise: Promise<FileStat | null>) => {
+        if (diffMode === 'only') {
+            return byteLength(input.diff ?? '');
+        } else if (input.content !== undefined) {
+            return byteLength(input.content);
+        }
+        const stat = await statPromise;
+        return stat && (config.max_file_size === null || stat.size <= config.max_file_size) ? stat.size : 0; // Too large files aren't read
+    };
+    const sizes = inputs.map((input, i) => bytesToRead(input, stats[i]));
+    const advance = createByteProgress(progress, progressShare, Promise.all(sizes).then(all => all.reduce((sum, bytes) => sum + bytes, 0)), inputs.length);
+
+    const processFile = async (input: ExportFileInput, stat: FileStat | null): Promise<ProcessedFile> => {
+        const filePath = input.filePath;
+        const relPathForFilter = path.relative(config.basePath, filePath).replace(/\\/g, '/');
+        let relPathForTemplate: string;
+
+        if (isFolderExportFromSubdirectory && config.folderExportPathRelativeToClickedFolder) {
+            relPathForTemplate = rootPrefix + path.relative(startPath, filePath).replace(/\\/g, '/');
+        } else if (relPathForFilter.startsWith('../') || path.isAbsolute(relPathForFilter)) {
+            relPathForTemplate = filePath.replace(/\\/g, '/'); // Explicitly passed file outside the project
+        } else {
+            relPathForTemplate = rootPrefix + relPathForFilter;
+        }
+        const pathForFindings = relPathForTemplate;
+        if (input.lines) {
+            relPathForTemplate += `:${input.lines.start}-${input.lines.end}`;
+        }
+
+        // Only whole files read from disk are cached; their section depends on nothing but the file and the config.
+        let cacheKey: { mtimeMs: number; size: number } | undefined;
+        if (options.cache && stat && input.content === undefined && !input.lines && diffMode === 'none') {
+            cacheKey = { mtimeMs: stat.mtimeMs, size: stat.size };
+            const cached = options.cache.get(filePath);
+            if (cached && cached.mtimeMs === cacheKey.mtimeMs && cached.size === cacheKey.size && (!keepContent || cached.section.content !== undefined)) {
+                return { section: cached.section, secrets: cached.secrets };
+            }
+        }
+
+        let lang = input.lang ?? getLanguageId(filePath, config.language_map);
+        let content = '';
+        let note: string | undefined;
+        let skipReason: string | undefined;
+        let diff: string | undefined;
+        let mtimeMs = 0;
+        let fileSize: number | null = null;
+        if (diffMode === 'only') {
+            lang = 'diff';
+            content = input.diff ?? '';
+            fileSize = byteLength(content);
+        } else if (input.content !== undefined) {
+            content = input.content;
+            fileSize = byteLength(content);
+            mtimeMs = Date.now(); // In-memory content is at least as recent as anything on disk
+        } else {
+            if (diffMode === 'append') {
+                diff = input.diff;
+            }
+            try {
+                const readResult = await readFileForExport(filePath, config.max_file_size, config.fileSystem, stat ?? undefined);
+                mtimeMs = readResult.mtimeMs;
+                fileSize = readResult.size;
+                if (readResult.kind === 'skipped') {
+                    skipReason = readResult.reason;
+                    note = renderTemplate(config.skipped_file_template, {
+                        relpath: relPathForTemplate,
+                        reason: readResult.reason,
+                        size: formatBytes(readResult.size),
+                    });
+                    if (!note) { // An empty template omits skipped files entirely
+                        return { secrets: [], omitted: { relPath: relPathForFilter, reason: readResult.reason, size: readResult.size } };
+                    }
+                } else {
+                    content = readResult.content;
+                }
+            } catch (readError: any) {
+                if (readError instanceof ExportCancelledError) throw readError;
+                console.warn(`Sheafy: Could not read file ${filePath}: ${readError.message}`);
+                note = `--- ERROR: Could not read file: ${readError.message} ---`;
+                skipReason = `could not be read: ${readError.message}`;
+            }
+        }
+        const fileSecrets: SecretFinding[] = [];
+        if (secretRules) {
+            // Findings point at lines of the file, also for exported line ranges.
+            const lineOffset = input.lines ? input.lines.start - 1 : 0;
+            if (note === undefined && content) {
+                const redaction = redactSecrets(content, filePath, secretRules);
+                content = redaction.content;
+                fileSecrets.push(...redaction.hits.map(hit => diffMode === 'only'
+                    ? { filePath, relPath: pathForFindings, line: hit.line, kind: hit.kind, inDiff: true }
+                    : { filePath, relPath: pathForFindings, line: hit.line + lineOffset, kind: hit.kind }));
+            }
+            if (diff) {
+                const redaction = redactSecrets(diff, filePath, secretRules);
+                diff = redaction.content;
+                fileSecrets.push(...redaction.hits.map(hit => ({ filePath, relPath: pathForFindings, line: hit.line, kind: hit.kind, inDiff: true })));
+            }
+        }
+        // After redaction, so findings still refer to the lines of the original file.
+        if (note === undefined && diffMode !== 'only') {
+            content = applyTransforms(content, lang, resolveTransforms(relPathForFilter), input.lines?.start ?? 1);
+        }
+        const template = resolveTemplate(relPathForFilter, lang);
+        const placeholders = {
+            filename: path.basename(filePath),
+            ext: path.extname(filePath).substring(1),
+            abspath: filePath,
+            size: fileSize === null ? '' : formatBytes(fileSize),
+            mtime: mtimeMs ? new Date(mtimeMs).toISOString() : '',
+            git_last_commit: needsLastCommit ? await getLastCommit(filePath) : '',
+        };
+        const formatted = formatter.renderSection({ displayPath: relPathForTemplate, lang, content, note, diff, template, placeholders });
+        const section: FileSection = {
+            filePath,
+            relPath: relPathForFilter,
+            displayPath: relPathForTemplate,
+            lang,
+            content: keepContent ? content : undefined,
+            contentBytes: byteLength(content),
+            contentLines: countLines(content),
+            note,
+            skipReason,
+            diff,
+            fileSize,
+            template,
+            placeholders,
+            formatted,
+            bytes: byteLength(formatted),
+            tokens: estimateTokens(formatted),
+            mtimeMs,
+        };
+        if (options.cache && cacheKey) {
+            options.cache.set(filePath, { ...cacheKey, section, secrets: fileSecrets });
+        }
+        return { section, secrets: fileSecrets };
+    };
+
+    yield* mapOrdered(inputs, concurrency, async (input, i) => {
+        if (token.isCancellationRequested) {
+            throw new ExportCancelledError();
+        }
+        const result = await processFile(input, await stats[i]);
+        advance(await sizes[i]);
+        return result;
+    });
+}
+
+/**
+ * Reads, redacts and formats the files of one root, see readSections, and collects the
+ * sections. Paths excluded by the walk are added to `skipped` if given.
+ */
+async function collectSections(
+    startPath: string,
+    config: MergedSheafyConfig,
+    formatter: BundleFormatter,
+    progress: ExportProgress,
+    token: CancellationSignal,
+    options: ExportOptions,
+    progressShare: number,
+    keepContent: boolean,
+    skipped?: SkippedPath[]
+): Promise<{ sections: FileSection[]; secrets: SecretFinding[]; omitted: OmittedFile[] }> {
+    const inputs = await listInputs(startPath, config, token, options, skipped);
+    const sections: FileSection[] = [];
+    const secrets: SecretFinding[] = [];
+    const omitted: OmittedFile[] = [];
+    for await (const result of readSections(startPath, inputs, config, formatter, progress, token, options, progressShare, keepContent)) {
+        if (result.section) {
+            sections.push(result.section);
+        }
+        if (result.omitted) {
+            omitted.push(result.omitted);
+        }
+        secrets.push(...result.secrets);
+    }
+    return { sections, secrets, omitted };
+}
+
+/**
+ * Cuts the content of a section that is too large for any part into line ranges whose rendered
+ * sections measure at most `maxCost`. The ranges are shown like exported selections,
+ * `src/app.ts:1-120`, counting the lines of the exported content. A diff goes with the last range.
+ */
+function splitSection(section: FileSection, maxCost: number, unit: SplitLimit['unit'], formatter: BundleFormatter): string[] {
+    const measure = unit === 'bytes' ? byteLength : estimateTokens;
+    const range = section.displayPath.match(/^(.*):(\d+)-\d+$/);
+    const basePath = range ? range[1] : section.displayPath;
+    let line = range ? parseInt(range[2], 10) : 1;
+    const { lang, template, placeholders } = section;
+    const frameCost = measure(formatter.renderSection({ displayPath: `${basePath}:${line}-999999`, lang, content: '', template, placeholders }));
+    const chunks: string[] = [];
+    let rest = section.content!;
+    while (rest) {
+        // Escaping (e.g. in JSON) can make the rendered chunk larger than its content; shrink until it fits.
+        let contentBudget = Math.max(1, maxCost - frameCost);
+        let chunk: string;
+        let rendered: string;
+        let lastLine: number;
+        while (true) {
+            chunk = truncateToLimits(rest, unit === 'tokens' ? contentBudget : Infinity, unit === 'bytes' ? contentBudget : Infinity)
+                || rest.slice(0, 1); // Always make progress, even if a single character doesn't fit
+            lastLine = line + countLines(chunk) - 1;
+            const isLast = chunk.length >= rest.length - 1;
+            rendered = formatter.renderSection({
+                displayPath: `${basePath}:${line}-${lastLine}`,
+                lang,
+                content: chunk,
+                diff: isLast ? section.diff : undefined,
+                template,
+                placeholders,
+            });
+            const cost = measure(rendered);
+            if (cost <= maxCost || chunk.length <= 1) {
+                break;
+            }
+            contentBudget = Math.max(1, Math.floor(contentBudget * (maxCost - frameCost) / (cost - frameCost)) - 1);
+        }
+        chunks.push(rendered);
+        rest = rest.slice(chunk.length);
+        const endsLine = rest.startsWith('\n');
+        if (endsLine) {
+            rest = rest.slice(1);
+        }
+        line = endsLine ? lastLine + 1 : lastLine; // A line cut in the middle continues in the next range
+    }
+    return chunks;
+}
+
+/**
+ * Splits the bundle into parts of at most `config.split_at`, packing whole sections in order.
+ * Only a section that exceeds the limit on its own is cut into line ranges. The first part
+ * carries the prologue and tree header, the last one the epilogue, and every part gets a
+ * "part k of n" header plus the part prologue and epilogue.
+ */
+function splitIntoParts(
+    sections: FileSection[],
+    headerParts: { prologue: string; header: string },
+    config: MergedSheafyConfig,
+    formatter: BundleFormatter
+): string[][] {
+    const { unit, limit } = config.split_at!;
+    const measure = unit === 'bytes' ? byteLength : estimateTokens;
+    const separatorCost = measure(formatter.separator);
+    const renderPart = (part: number, parts: number, partSections: string[], first: boolean, last: boolean) => {
+        const values = { part: String(part), parts: String(parts) };
+        return formatter.renderBundle({
+            partHeader: formatter.renderPartHeader(part, parts),
+            prologue: [renderTemplate(config.part_prologue, values), first ? headerParts.prologue : ''].filter(text => text).join('\n\n'),
+            header: first ? headerParts.header : '',
+            sections: partSections,
+            epilogue: [last ? config.epilogue : '', renderTemplate(config.part_epilogue, values)].filter(text => text).join('\n\n'),
+        });
+    };
+
+    // Sums section costs on top of the part's frame; counting a separator per section errs on the safe side.
+    const pack = (partCount: number): string[][] => {
+        const packed: string[][] = [[]];
+        let used = measure(renderPart(1, partCount, [''], true, false).join(''));
+        const startPart = () => {
+            packed.push([]);
+            used = measure(renderPart(packed.length, partCount, [''], false, false).join(''));
+        };
+        for (const section of sections) {
+            const cost = measure(section.formatted) + separatorCost;
+            if (used + cost > limit && packed[packed.length - 1].length > 0) {
+                startPart();
+            }
+            const available = limit - used - separatorCost; // For a section in an otherwise empty part
+            if (used + cost > limit && section.note === undefined && available > 0) {
+                for (const chunk of splitSection(section, available, unit, formatter)) {
+                    const chunkCost = measure(chunk) + separatorCost;
+                    if (used + chunkCost > limit && packed[packed.length - 1].length > 0) {
+                        startPart();
+                    }
+                    packed[packed.length - 1].push(chunk);
+                    used += chunkCost;
+                }
+                continue;
+            }
+            packed[packed.length - 1].push(section.formatted);
+            used += cost;
+        }
+        const epilogueCost = config.epilogue ? measure(config.epilogue) + separatorCost : 0;
+        if (used + epilogueCost > limit && packed[packed.length - 1].length > 0) {
+            packed.push([]); // The epilogue gets a part of its own
+        }
+        return packed;
+    };
+
+    // The part headers depend on the number of parts, so pack again until it stops changing.
+    let packed = pack(1);
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const repacked = pack(packed.length);
+        const settled = repacked.length === packed.length;
+        packed = repacked;
+        if (settled) {
+            break;
+        }
+    }
+    return packed.map((partSections, i) => renderPart(i + 1, packed.length, partSections, i === 0, i === packed.length - 1));
+}
+
+// Chunks meet at separators, which never run on with a word, so their sizes add up to the
+// size of the whole.
+function measureChunks(chunks: string[], measure: (text: string) => number): number {
+    return chunks.reduce((sum, chunk) => sum + measure(chunk), 0);
+}
+
+/**
+ * Applies the budget to `sections` and renders the bundle with `config`'s format, prologue
+ * and epilogue, in chunks. If the bundle exceeds `split_at`, it is also rendered as numbered
+ * parts. Dependency edges between exported files are listed before the tree header.
+ */
+function renderBundle(
+    sections: FileSection[],
+    config: MergedSheafyConfig,
+    formatter: BundleFormatter,
+    treeRootLabel: string,
+    dependencies: DependencyEdge[] = []
+): { chunks: string[]; partChunks: string[][]; sections: FileSection[]; report: BudgetReport } {
+
+    const formatSection = (section: Pick<FileSection, 'displayPath' | 'lang' | 'diff' | 'template' | 'placeholders'>, content: string) => {
+        const { displayPath, lang, diff, template, placeholders } = section;
+        return formatter.renderSection({ displayPath, lang, content, diff, template, placeholders });
+    };
+
+    // Edges whose files both made it into the bundle, by display path.
+    const renderDependencyHeader = (exported: FileSection[]) => {
+        const displayPaths = new Map(exported.map(section => [section.filePath, section.displayPath]));
+        const edges = new Map<string, { from: string; to: string }>();
+        for (const edge of dependencies) {
+            const from = displayPaths.get(edge.from);
+            const to = displayPaths.get(edge.to);
+            if (from !== undefined && to !== undefined) {
+                edges.set(`${from}\n${to}`, { from, to });
+            }
+        }
+        return edges.size > 0 ? formatter.renderDependencies([...edges.values()]) : '';
+    };
+
+    // Prologue ({tree} placeholder) and the optional dependency and tree/index headers for a given set of sections.
+    const renderHeaderParts = (exported: FileSection[]) => {
+        const dependencyHeader = renderDependencyHeader(exported);
+        if (!config.include_tree && !config.prologue.includes('{tree}')) {
+            return { prologue: config.prologue, header: dependencyHeader };
+        }
+        const entries: TreeEntry[] = exported.map(section => {
+            if (!config.tree_details || section.note !== undefined) {
+                return { path: section.displayPath };
+            }
+            return { path: section.displayPath, bytes: section.contentBytes, lines: section.contentLines };
+        });
+        const tree = renderTree(treeRootLabel, entries, config.tree_depth);
+        return {
+            prologue: renderTemplate(config.prologue, { tree }),
+            header: [dependencyHeader, config.include_tree ? formatter.renderHeader(tree, exported.map(section => section.displayPath)) : '']
+                .filter(header => header).join(formatter.separator),
+        };
+    };
+
+    // The tree, index and dependency headers list the exported files, so the overhead depends on
+    // which files fit. The header of all files is an upper bound; the budget is then applied again
+    // with the header of the files that were kept, as long as the result still fits.
+    const renderOverhead = (exported: FileSection[]) =>
+        formatter.renderBundle({ ...renderHeaderParts(exported), sections: [], epilogue: config.epilogue }).join('');
+    // The report of `result` (budgeted with `assumed` as overhead) with the overhead it really has.
+    const withOverhead = (result: { sections: FileSection[]; report: BudgetReport }, assumed: string, actual: string): { sections: FileSection[]; report: BudgetReport } => ({
+        sections: result.sections,
+        report: {
+            ...result.report,
+            totalTokens: result.report.totalTokens - estimateTokens(assumed) + estimateTokens(actual),
+            totalBytes: result.report.totalBytes - byteLength(assumed) + byteLength(actual),
+        },
+    });
+    let overhead = renderOverhead(sections);
+    let budgeted = applyBudget(sections, overhead, formatter.separator, config, formatSection);
+    let actualOverhead = renderOverhead(budgeted.sections);
+    for (let round = 0; round < 3 && actualOverhead !== overhead; round++) {
+        const candidate = applyBudget(sections, actualOverhead, formatter.separator, config, formatSection);
+        const candidateOverhead = renderOverhead(candidate.sections);
+        const { report } = withOverhead(candidate, actualOverhead, candidateOverhead);
+        if (report.totalTokens > (config.max_tokens ?? Infinity) || report.totalBytes > (config.max_bytes ?? Infinity)) {
+            break; // More files made the header outgrow the room left for it
+        }
+        overhead = actualOverhead;
+        budgeted = candidate;
+        actualOverhead = candidateOverhead;
+    }
+    budgeted = withOverhead(budgeted, overhead, actualOverhead);
+
+    const headerParts = renderHeaderParts(budgeted.sections);
+    const chunks = formatter.renderBundle({
+        ...headerParts,
+        sections: budgeted.sections.map(section => section.formatted),
+        epilogue: config.epilogue,
+    });
+    const measure = config.split_at?.unit === 'tokens' ? estimateTokens : byteLength;
+    const partChunks = config.split_at && measureChunks(chunks, measure) > config.split_at.limit
+        ? splitIntoParts(budgeted.sections, headerParts, config, formatter)
+        : [chunks];
+    return { chunks, partChunks, sections: budgeted.sections, report: budgeted.report };
+}
+
+// `output` and `parts` are only joined if they are read, e.g. for the clipboard; files are
+// written from the chunks.
+function bundleResult(fields: Omit<BundleResult, 'output' | 'parts'>): BundleResult {
+    let output: string | undefined;
+    let parts: string[] | undefined;
+    const result: BundleResult = {
+        ...fields,
+        get output() {
+            return output ??= fields.chunks.join('');
+        },
+        get parts() {
+            return parts ??= fields.partChunks.map(chunks => chunks === fields.chunks ? result.output : chunks.join(''));
+        },
+    };
+    return result;
+}
+
+function blockedResult(config: MergedSheafyConfig, formatter: BundleFormatter, secrets: SecretFinding[]): BundleResult {
+    return bundleResult({
+        chunks: [],
+        partChunks: [],
+        files: [],
+        budget: { maxTokens: config.max_tokens, maxBytes: config.max_bytes, totalTokens: 0, totalBytes: 0, cutFiles: [] },
+        secrets,
+        blocked: true,
+        languageId: formatter.languageId,
+    });
+}
+
+function finishBundle(
+    sections: FileSection[],
+    config: MergedSheafyConfig,
+    formatter: BundleFormatter,
+    treeRootLabel: string,
+    secrets: SecretFinding[],
+    progress: ExportProgress,
+    token: CancellationSignal,
+    dependencies: DependencyEdge[] = []
+): BundleResult {
+    progress.report({ message: "Finalizing output...", increment: token.isCancellationRequested ? 0 : 5 }); // Small increment before join
+    if (token.isCancellationRequested) throw new ExportCancelledError();
+    const rendered = renderBundle(sections, config, formatter, treeRootLabel, dependencies);
+    return bundleResult({
+        chunks: rendered.chunks,
+        partChunks: rendered.partChunks,
+        files: rendered.sections.map(({ relPath, tokens, bytes }) => ({ relPath, tokens, bytes })),
+        budget: rendered.report,
+        secrets,
+        blocked: false,
+        languageId: formatter.languageId,
+    });
+}
+
+function treeRootLabelFor(startPath: string, config: MergedSheafyConfig): string {
+    const isFolderExportFromSubdirectory = (startPath !== config.basePath);
+    return path.basename(isFolderExportFromSubdirectory && config.folderExportPathRelativeToClickedFolder ? startPath : config.basePath) + '/';
+}
+
+/**
+ * Builds the bundle of `startPathInput` (relative to the project root, or absolute) with
+ * `config`. Throws if the start path can't be read, and ExportCancelledError if `token` is
+ * cancelled.
+ */
+export async function buildBundle(
+    startPathInput: string,
+    config: MergedSheafyConfig,
+    options: ExportOptions = {},
+    progress: ExportProgress = NO_PROGRESS,
+    token: CancellationSignal = NOT_CANCELLED
+): Promise<BundleResult> {
+    const startPath = path.resolve(config.basePath, startPathInput);
+
+    progress.report({ increment: 0, message: "Discovering files..." }); // Initial message
+    if (token.isCancellationRequested) throw new ExportCancelledError();
+
+    const formatter = getFormatter(config.format, config.exportFormatTemplate);
+    const collected = await collectSections(startPath, config, formatter, progress, token, options, 75, needsSectionContent(config));
+    if (config.secret_mode === 'block' && collected.secrets.length > 0) {
+        return blockedResult(config, formatter, collected.secrets);
+    }
+
+    return finishBundle(collected.sections, config, formatter, treeRootLabelFor(startPath, config), collected.secrets, progress, token, options.dependencies);
+}
+
+/** The outcome of streamBundle: a BundleResult without the bundle, which went to the output as it was rendered. */
+export type StreamedBundle = Omit<BundleResult, 'chunks' | 'partChunks' | 'output' | 'parts' | 'blocked'>;
+
+/**
+ * Whether streamBundle can write the bundle of `config`: nothing before the sections may depend
+ * on which of them are exported (tree, dependency header), and nothing may need them all before
+ * writing the first (budget, split_at, secret_mode "block").
+ */
+export function canStreamBundle(config: MergedSheafyConfig, options: ExportOptions = {}): boolean {
+    return config.max_tokens === null && config.max_bytes === null && config.split_at === null
+        && config.secret_mode !== 'block'
+        && !config.include_tree && !config.prologue.includes('{tree}')
+        && !options.dependencies?.length;
+}
+
+// Stands in for the sections when rendering the frame of a streamed bundle.
+const SECTIONS_PLACEHOLDER = '\0sections\0';
+
+/**
+ * Builds the bundle of `startPathInput` like buildBundle, but passes it to `write` in pieces,
+ * each section as soon as it is formatted, and holds on to none of them. Memory doesn't grow
+ * with the size of the bundle. Only for configurations that canStreamBundle accepts.
+ */
+export async function streamBundle(
+    startPathInput: string,
+    config: MergedSheafyConfig,
+    write: (chunks: AsyncIterable<string>) => Promise<void>,
+    options: ExportOptions = {},
+    progress: ExportProgress = NO_PROGRESS,
+    token: CancellationSignal = NOT_CANCELLED
+): Promise<StreamedBundle> {
+    if (!canStreamBundle(config, options)) {
+        throw new Error('This bundle needs all sections before it can be written; use buildBundle.');
+    }
+    const startPath = path.resolve(config.basePath, startPathInput);
+
+    progress.report({ increment: 0, message: "Discovering files..." });
+    if (token.isCancellationRequested) {
+        throw new ExportCancelledError();
+    }
+
+    const formatter = getFormatter(config.format, config.exportFormatTemplate);
+    const inputs = await listInputs(startPath, config, token, options);
+    const files: StreamedBundle['files'] = [];
+    const secrets: SecretFinding[] = [];
+    let totalTokens = 0;
+    let totalBytes = 0;
+
+    // The format's frame around the sections, which an empty bundle doesn't get (e.g. "[]" in JSON).
+    const frame = formatter.renderBundle({ prologue: config.prologue, header: '', sections: [SECTIONS_PLACEHOLDER], epilogue: config.epilogue });
+    const sectionsAt = frame.indexOf(SECTIONS_PLACEHOLDER);
+    async function* render(): AsyncGenerator<string> {
+        let first = true;
+        for await (const result of readSections(startPath, inputs, config, formatter, progress, token, options, 85, false)) {
+            secrets.push(...result.secrets);
+            if (!result.section) {
+                continue;
+            }
+            const { relPath, tokens, bytes, formatted } = result.section;
+            files.push({ relPath, tokens, bytes });
+            if (!formatted) {
+                continue; // Left out of the bundle like buildBundle leaves out empty parts
+            }
+            if (first) {
+                yield* frame.slice(0, sectionsAt);
+                first = false;
+            } else {
+                yield formatter.separator;
+            }
+            yield formatted;
+        }
+        yield* first
+            ? formatter.renderBundle({ prologue: config.prologue, header: '', sections: [], epilogue: config.epilogue })
+            : frame.slice(sectionsAt + 1);
+    }
+    async function* measured(): AsyncGenerator<string> {
+        for await (const chunk of render()) {
+            totalTokens += estimateTokens(chunk);
+            totalBytes += byteLength(chunk);
+            yield chunk;
+        }
+    }
+    await write(measured());
+    return {
+        files,
+        budget: { maxTokens: null, maxBytes: null, totalTokens, totalBytes, cutFiles: [] },
+        secrets,
+        languageId: formatter.languageId,
+    };
+}
+
+/**
+ * Streams `bundle` to `outputFilePath`, or its parts next to it (bundle.part1.md, ...) if it was
+ * split. Part files left over from an earlier, longer split are removed. Returns the written paths.
+ * Parts may also be rendered while they are written, see streamBundle.
+ */
+export async function writeBundleFiles(
+    outputFilePath: string,
+    bundle: { partChunks: ReadonlyArray<Iterable<string> | AsyncIterable<string>> },
+    fileSystem: FileSystem = nodeFileSystem
+): Promise<string[]> {
+    const { partChunks } = bundle;
+    const written: string[] = [];
+    if (partChunks.length > 1) {
+        for (const [i, chunks] of partChunks.entries()) {
+            written.push(bundlePartName(outputFilePath, i + 1));
+            await fileSystem.writeFile(written[i], chunks);
+        }
+    } else {
+        await fileSystem.writeFile(outputFilePath, partChunks[0] ?? []);
+        written.push(outputFilePath);
+    }
+    for (let part = partChunks.length > 1 ? partChunks.length + 1 : 1; ; part++) {
+        try {
+            await fileSystem.deleteFile(bundlePartName(outputFilePath, part));
+        } catch {
+            break; // No more parts
+        }
+    }
+    return written;
+}
+
+/**
+ * Dry run of buildBundle for a directory walk: reports every candidate path below
+ * `startPathInput` as included or skipped (with the rule that excluded it), its size and the
+ * estimated tokens of its section, plus the totals of the bundle that would be built. Nothing
+ * is written.
+ */
+export async function previewExport(
+    startPathInput: string,
+    config: MergedSheafyConfig,
+    progress: ExportProgress = NO_PROGRESS,
+    token: CancellationSignal = NOT_CANCELLED
+): Promise<ExportReport> {
+    const startPath = path.resolve(config.basePath, startPathInput);
+
+    progress.report({ increment: 0, message: "Discovering files..." });
+    if (token.isCancellationRequested) throw new ExportCancelledError();
+
+    const formatter = getFormatter(config.format, config.exportFormatTemplate);
+    const skipped: SkippedPath[] = [];
+    const collected = await collectSections(startPath, config, formatter, progress, token, {}, 75, needsSectionContent(config), skipped);
+    progress.report({ message: "Building the report...", increment: token.isCancellationRequested ? 0 : 5 });
+    if (token.isCancellationRequested) throw new ExportCancelledError();
+
+    const rendered = renderBundle(collected.sections, config, formatter, treeRootLabelFor(startPath, config));
+    const exported = new Map(rendered.sections.map(section => [section.relPath, section]));
+    const cuts = new Map(rendered.report.cutFiles.map(cut => [cut.relPath, cut]));
+
+    const entries: ReportEntry[] = collected.sections.map(section => {
+        const entry: ReportEntry = {
+            path: section.relPath,
+            status: section.note === undefined ? 'included' : 'skipped',
+            reason: section.skipReason,
+            size: section.fileSize,
+            tokens: exported.get(section.relPath)?.tokens ?? null,
+        };
+        const cut = cuts.get(section.relPath);
+        if (cut?.action === 'dropped') {
+            entry.status = 'skipped';
+            entry.reason = section.skipReason ? `${section.skipReason}, dropped to fit the budget` : 'dropped to fit the budget';
+        } else if (cut?.action === 'truncated') {
+            entry.reason = 'truncated to fit the budget';
+        }
+        return entry;
+    });
+    entries.push(...collected.omitted.map(file => ({ path: file.relPath, status: 'skipped' as const, reason: file.reason, size: file.size, tokens: null })));
+    for (const skippedPath of skipped) {
+        let size: number | null = null;
+        if (!skippedPath.isDirectory) {
+            try {
+                size = (await config.fileSystem.stat(skippedPath.path)).size;
+            } catch {
+                size = null; // Broken symlink or removed meanwhile
+            }
+        }
+        entries.push({
+            path: toPosixPath(path.relative(config.basePath, skippedPath.path)) + (skippedPath.isDirectory ? '/' : ''),
+            status: 'skipped',
+            reason: skippedPath.reason,
+            rule: skippedPath.rule,
+            size,
+            tokens: null,
+        });
+    }
+    entries.sort((a, b) => compareWalkOrder(a.path.replace(/\/$/, ''), b.path.replace(/\/$/, ''), '/'));
+
+    const included = entries.filter(entry => entry.status === 'included');
+    return {
+        basePath: config.basePath,
+        profile: config.profile,
+        entries,
+        totals: {
+            includedFiles: included.length,
+            skippedFiles: entries.filter(entry => entry.status === 'skipped' && !entry.path.endsWith('/')).length,
+            skippedDirectories: entries.filter(entry => entry.path.endsWith('/')).length,
+            includedSize: included.reduce((sum, entry) => sum + (entry.size ?? 0), 0),
+            bundleTokens: measureChunks(rendered.chunks, estimateTokens),
+            bundleBytes: measureChunks(rendered.chunks, byteLength),
+            parts: rendered.partChunks.length,
+        },
+        budget: rendered.report,
+        secrets: collected.secrets.length,
+        blocked: config.secret_mode === 'block' && collected.secrets.length > 0,
+    };
+}
+
+/**
+ * Builds one bundle of several workspace roots. Each root is walked with its own
+ * configuration and its paths are prefixed with the root's name; the format, budget and
+ * prologue/epilogue come from the first root's configuration. Errors are prefixed with the
+ * name of the root they occurred in.
+ */
+export async function buildRootsBundle(
+    roots: ExportRoot[],
+    treeRootLabel: string,
+    progress: ExportProgress = NO_PROGRESS,
+    token: CancellationSignal = NOT_CANCELLED
+): Promise<BundleResult> {
+    const outputConfig = roots[0].config;
+    const formatter = getFormatter(outputConfig.format, outputConfig.exportFormatTemplate);
+
+    progress.report({ increment: 0, message: "Discovering files..." });
+    const sections: FileSection[] = [];
+    const secrets: SecretFinding[] = [];
+    const blockingSecrets: SecretFinding[] = []; // Found in roots whose secret_mode is "block"
+    for (const root of roots) {
+        if (token.isCancellationRequested) throw new ExportCancelledError();
+        const config: MergedSheafyConfig = { ...root.config, prefix_root_name: true };
+        try {
+            const collected = await collectSections(config.basePath, config, formatter, progress, token, root.options ?? {}, 75 / roots.length, needsSectionContent(outputConfig));
+            collected.sections.forEach(section => sections.push(section)); // Too many for push(...) in large repositories
+            (config.secret_mode === 'block' ? blockingSecrets : secrets).push(...collected.secrets);
+        } catch (error: any) {
+            if (error instanceof ExportCancelledError) throw error;
+            throw new Error(`${config.root_name}: ${error.message}`);
+        }
+    }
+    if (blockingSecrets.length > 0) {
+        return blockedResult(outputConfig, formatter, blockingSecrets);
+    }
+    const dependencies = roots.flatMap(root => root.options?.dependencies ?? []);
+    return finishBundle(sections, outputConfig, formatter, `${treeRootLabel}/`, secrets, progress, token, dependencies);
+}
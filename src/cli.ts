@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+// src/cli.ts
+import { promises as fsPromises } from 'fs';
+import * as path from 'path';
+import { bundlePartName, DEFAULT_VSCODE_SETTINGS, readSheafyToml, resolveSheafyConfig, SHEAFY_TOML_FILENAME } from './config';
+import { buildBundle, canStreamBundle, StreamedBundle, streamBundle, writeBundleFiles } from './bundler';
+
+const USAGE = `Usage: sheafy export [--profile <name>] [--out <file>] [path]
+
+Bundles the files below [path] (default: the current directory) exactly like the Sheafy
+VS Code extension, using the ${SHEAFY_TOML_FILENAME} of the nearest enclosing directory that has one.
+
+Options:
+  -p, --profile <name>  Use the [profiles.<name>] table of ${SHEAFY_TOML_FILENAME}
+  -o, --out <file>      Write the bundle to <file> instead of stdout, or to numbered
+                        part files next to it if the bundle exceeds split_at
+  -h, --help            Show this help
+`;
+
+export interface CliStreams {
+    stdout: { write(text: string): unknown };
+    stderr: { write(text: string): unknown };
+}
+
+interface CliOptions {
+    profile?: string;
+    out?: string;
+    target: string;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions | 'help' {
+    if (args.includes('-h') || args.includes('--help')) {
+        return 'help';
+    }
+    const [command, ...rest] = args;
+    if (command !== 'export') {
+        throw new UsageError(command ? `Unknown command '${command}'.` : 'Missing command.');
+    }
+    const options: CliOptions = { target: '.' };
+    const positional: string[] = [];
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+        if (flag === '-p' || flag === '--profile' || flag === '-o' || flag === '--out') {
+            const value = inlineValue ?? rest[++i];
+            if (!value) {
+                throw new UsageError(`${flag} needs a value.`);
+            }
+            if (flag === '-p' || flag === '--profile') {
+                options.profile = value;
+            } else {
+                options.out = value;
+            }
+        } else if (arg.startsWith('-') && arg !== '-') {
+            throw new UsageError(`Unknown option '${arg}'.`);
+        } else {
+            positional.push(arg);
+        }
+    }
+    if (positional.length > 1) {
+        throw new UsageError('Only one path can be exported at a time.');
+    }
+    options.target = positional[0] ?? '.';
+    return options;
+}
+
+// The project root is the nearest directory with a sheafy.toml, like the workspace folder in the editor.
+async function findProjectRoot(startPath: string): Promise<string> {
+    let dir = startPath;
+    while (true) {
+        try {
+            await fsPromises.access(path.join(dir, SHEAFY_TOML_FILENAME));
+            return dir;
+        } catch {
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return startPath;
+            }
+            dir = parent;
+        }
+    }
+}
+
+/**
+ * Runs the `sheafy` command line. Returns the exit code: 0 on success, 1 if the export failed
+ * or was blocked by secrets, 2 for usage errors.
+ */
+export async function runCli(args: string[], streams: CliStreams = process, cwd = process.cwd()): Promise<number> {
+    let options: CliOptions | 'help';
+    try {
+        options = parseArgs(args);
+    } catch (error: any) {
+        streams.stderr.write(`sheafy: ${error.message}\n\n${USAGE}`);
+        return 2;
+    }
+    if (options === 'help') {
+        streams.stdout.write(USAGE);
+        return 0;
+    }
+
+    const warn = (message: string) => streams.stderr.write(`sheafy: warning: ${message}\n`);
+    try {
+        const target = path.resolve(cwd, options.target);
+        const basePath = await findProjectRoot(target);
+        const tomlDocument = await readSheafyToml(basePath, warn);
+        let config = resolveSheafyConfig(basePath, path.basename(basePath), DEFAULT_VSCODE_SETTINGS, tomlDocument, options.profile ?? null, warn);
+
+        const outPath = options.out !== undefined ? path.resolve(cwd, options.out) : undefined;
+        const outRelPath = outPath !== undefined ? path.relative(basePath, outPath).replace(/\\/g, '/') : '..';
+        if (!outRelPath.startsWith('..') && !path.isAbsolute(outRelPath)) {
+            // Like bundle_name in the editor, the output file is never part of the next bundle.
+            config = { ...config, ignore_patterns_array: [...config.ignore_patterns_array, `/${outRelPath}`, `/${bundlePartName(outRelPath, '*')}`] };
+        }
+
+        // Unless the whole bundle must be known first (budget, split_at, tree, ...), sections are
+        // written as they are read.
+        let bundle: StreamedBundle;
+        let written: string[] = [];
+        if (canStreamBundle(config)) {
+            bundle = await streamBundle(target, config, async chunks => {
+                if (outPath === undefined) {
+                    for await (const chunk of chunks) {
+                        streams.stdout.write(chunk);
+                    }
+                } else {
+                    await fsPromises.mkdir(path.dirname(outPath), { recursive: true });
+                    written = await writeBundleFiles(outPath, { partChunks: [chunks] });
+                }
+            });
+        } else {
+            const built = await buildBundle(target, config);
+            if (built.blocked) {
+                streams.stderr.write(`sheafy: Export blocked: found ${built.secrets.length} secret(s) and secret_mode is "block":\n`);
+                built.secrets.forEach(finding => streams.stderr.write(`  ${finding.relPath}:${finding.line} ${finding.kind}${finding.inDiff ? ' (in diff)' : ''}\n`));
+                return 1;
+            }
+            if (outPath !== undefined) {
+                await fsPromises.mkdir(path.dirname(outPath), { recursive: true });
+                written = await writeBundleFiles(outPath, built);
+            } else {
+                // A stream has no size limit, so it always gets the whole bundle
+                built.chunks.forEach(chunk => streams.stdout.write(chunk));
+            }
+            bundle = built;
+        }
+        if (bundle.secrets.length > 0) {
+            warn(`Redacted ${bundle.secrets.length} secret(s): ${bundle.secrets.map(finding => `${finding.relPath}:${finding.line} (${finding.kind})`).join(', ')}`);
+        }
+        if (bundle.budget.cutFiles.length > 0) {
+            warn(`Bundle exceeded the budget. Cut ${bundle.budget.cutFiles.length} file(s): ${bundle.budget.cutFiles.map(cut => `${cut.relPath} (${cut.action})`).join(', ')}`);
+        }
+        if (outPath !== undefined) {
+            const writtenList = written.map(filePath => path.relative(cwd, filePath) || filePath).join(', ');
+            streams.stderr.write(`sheafy: Wrote ${writtenList} (~${bundle.budget.totalTokens.toLocaleString()} tokens, ${bundle.files.length} files)\n`);
+        }
+        return 0;
+    } catch (error: any) {
+        streams.stderr.write(`sheafy: ${error.message}\n`);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
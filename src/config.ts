@@ -0,0 +1,547 @@
+// src/config.ts
+import * as path from 'path';
+import { parse } from '@iarna/toml'; // 确保你已经 npm install @iarna/toml @types/iarna__toml (如果后者存在) 或者只安装前者
+import { BudgetAction, BudgetPriority, BundleFormat, ExportDestination, SecretDetector, SecretMode, SplitLimit } from './types';
+import { BUNDLE_FORMATS, TEMPLATE_PLACEHOLDERS, TemplateRule } from './formats';
+import { GitDiffMode } from './gitChanges';
+import { parseByteSize } from './utils';
+import { SECRET_DETECTORS, SecretPattern } from './redaction';
+import { NO_TRANSFORMS, TransformRule, TransformSettings } from './transforms';
+import { FileSystem, nodeFileSystem, readTextFile } from './fileSystem';
+import { describeTable, findUnknownPlaceholders, SKIPPED_FILE_PLACEHOLDERS, validateSheafyDocument } from './configSchema';
+
+export const SHEAFY_TOML_FILENAME = "sheafy.toml";
+
+/** Receives a message for every invalid value; the value falls back to its default. */
+export type ConfigWarningHandler = (message: string) => void;
+
+/** sheafy.toml exists but could not be read or parsed. */
+export class SheafyConfigError extends Error {}
+
+export interface SheafyTomlConfig {
+    bundle_name?: string;
+    working_dir?: string;
+    use_gitignore?: boolean;
+    ignore_patterns?: string; // Multi-line string
+    include_patterns?: string; // Multi-line string, gitignore syntax; if set, only matching files are exported
+    include_extensions?: string[]; // e.g. ["ts", "md"]; if set, only files with these extensions are exported
+    exclude_extensions?: string[]; // e.g. ["lock", "d.ts"]
+    prologue?: string;
+    epilogue?: string;
+    max_tokens?: number; // Estimated token budget for the whole bundle; 0 means no budget
+    max_bytes?: number; // Byte budget for the whole bundle; 0 means no budget
+    priority_patterns?: string; // Multi-line string, gitignore syntax; earlier patterns are kept first
+    budget_priority?: BudgetPriority;
+    budget_action?: BudgetAction;
+    max_file_size?: number | string; // Bytes, or a string such as "512KB"; 0 disables the limit
+    split_at?: number | string; // Part size: bytes, a size such as "200KB", or estimated tokens such as "50000 tokens"
+    part_prologue?: string; // Added to the start of every part of a split bundle; placeholders: {part}, {parts}
+    part_epilogue?: string; // Added to the end of every part of a split bundle; placeholders: {part}, {parts}
+    skipped_file_template?: string; // Placeholders: {relpath}, {reason}, {size}
+    dependency_depth?: number; // How many imports deep "Export file with dependencies" follows; default 3
+    format?: BundleFormat;
+    include_tree?: boolean; // Insert a directory tree and file index between prologue and files
+    tree_depth?: number; // Directories deeper than this are collapsed; 0 or absent means unlimited
+    tree_details?: boolean; // Show sizes and line counts in the tree
+    export_format_template?: string; // Overrides the sheafy.exportFormatTemplate setting (used by the "custom" format)
+    export_destinations?: ExportDestination[]; // Overrides the sheafy.exportDestinations setting
+    git_diff?: GitDiffMode; // Git exports: "none", "append" (diff after content) or "only" (diff instead of content)
+    prefix_root_name?: boolean; // Prefix {relpath} with the workspace folder name (always on when exporting all roots)
+    secret_mode?: SecretMode; // "redact" (default), "block" or "off"
+    secret_detectors?: SecretDetector[]; // Built-in detectors to run; default all
+    secret_patterns?: Array<string | { kind?: string; pattern: string }>; // Extra regular expressions
+    transforms?: Partial<TransformSettings>; // Content transforms for every file
+    transform_rules?: Array<Partial<TransformSettings> & { pattern: string }>; // Per-glob overrides; later rules win
+    template_rules?: Array<{ pattern?: string; language?: string | string[]; template: string }>; // Per-glob or per-language templates; later rules win
+    language_map?: { [extension: string]: string }; // Extends the built-in extension-to-language table, e.g. { mdx = "markdown" }
+}
+
+/**
+ * The parsed sheafy.toml: the base `[sheafy]` table plus `[profiles.<name>]` tables,
+ * each of which inherits every key from `[sheafy]` and may override any of them.
+ */
+export interface SheafyTomlDocument {
+    sheafy: SheafyTomlConfig | null;
+    profiles: { [name: string]: SheafyTomlConfig };
+}
+
+export interface SheafyVSCodeSettings {
+    respectGitignore: boolean;
+    defaultProfile: string;
+    exportDestinations: ExportDestination[];
+    exportFormatTemplate: string;
+    folderExportPathRelativeToClickedFolder: boolean;
+}
+
+export interface MergedSheafyConfig {
+    tomlConfig: SheafyTomlConfig | null; // [sheafy] with the active profile applied on top
+    profile: string | null; // Name of the active [profiles.<name>] table
+    vscodeSettings: SheafyVSCodeSettings;
+    // Effective values after merging/considering defaults
+    bundle_name: string;
+    working_dir: string; // Absolute path
+    use_gitignore: boolean;
+    ignore_patterns_array: string[]; // Parsed from multi-line string
+    include_patterns_array: string[]; // Parsed from multi-line string
+    include_extensions: string[]; // Lower-case, without leading dot
+    exclude_extensions: string[]; // Lower-case, without leading dot
+    prologue: string;
+    epilogue: string;
+    basePath: string; // Workspace root path
+    root_name: string; // Name of the workspace folder (or the base directory's name outside a workspace)
+    prefix_root_name: boolean;
+    format: BundleFormat;
+    include_tree: boolean;
+    tree_depth: number | null;
+    tree_details: boolean;
+    exportFormatTemplate: string;
+    exportDestinations: ExportDestination[];
+    folderExportPathRelativeToClickedFolder: boolean;
+    max_tokens: number | null;
+    max_bytes: number | null;
+    priority_patterns_array: string[];
+    budget_priority: BudgetPriority;
+    budget_action: BudgetAction;
+    max_file_size: number | null;
+    split_at: SplitLimit | null;
+    part_prologue: string;
+    part_epilogue: string;
+    skipped_file_template: string;
+    dependency_depth: number;
+    git_diff: GitDiffMode;
+    secret_mode: SecretMode;
+    secret_detectors: SecretDetector[];
+    secret_patterns: SecretPattern[];
+    transforms: TransformSettings;
+    transform_rules: TransformRule[];
+    template_rules: TemplateRule[];
+    language_map: { [extension: string]: string }; // Lower-case extension without leading dot -> language id
+    fileSystem: FileSystem; // Where the project's files are read from and bundles are written to
+}
+
+const EXPORT_DESTINATIONS: ExportDestination[] = ['clipboard', 'tempTab', 'rootDir', 'workingDir'];
+
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+export const DEFAULT_SKIPPED_FILE_TEMPLATE = "[{reason}, {size}, skipped]";
+export const DEFAULT_DEPENDENCY_DEPTH = 3;
+export const DEFAULT_EXPORT_FORMAT_TEMPLATE = "### {relpath}\n\n```{lang}\n{content}\n````\n";
+
+// The defaults of the VS Code settings, for use outside the editor.
+export const DEFAULT_VSCODE_SETTINGS: SheafyVSCodeSettings = {
+    respectGitignore: true,
+    defaultProfile: '',
+    exportDestinations: ['clipboard'],
+    exportFormatTemplate: DEFAULT_EXPORT_FORMAT_TEMPLATE,
+    folderExportPathRelativeToClickedFolder: false,
+};
+
+function parsePatternList(raw: string | undefined): string[] {
+    return (raw || "")
+        .split('\n')
+        .map(p => p.trim())
+        .filter(p => p.length > 0 && !p.startsWith('#'));
+}
+
+function parseExtensionList(value: unknown, key: string, warn: ConfigWarningHandler): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    const items = typeof value === 'string' ? value.split(/[\s,]+/) : value;
+    if (!Array.isArray(items) || !items.every(item => typeof item === 'string')) {
+        warn(`'${key}' in ${SHEAFY_TOML_FILENAME} must be an array of strings. Ignoring it.`);
+        return [];
+    }
+    return items
+        .map(ext => ext.trim().replace(/^\*?\./, '').toLowerCase())
+        .filter(ext => ext.length > 0);
+}
+
+function parseSecretDetectors(value: unknown, warn: ConfigWarningHandler): SecretDetector[] {
+    if (value === undefined) {
+        return SECRET_DETECTORS;
+    }
+    if (!Array.isArray(value) || !value.every(item => SECRET_DETECTORS.includes(item))) {
+        warn(`'secret_detectors' in ${SHEAFY_TOML_FILENAME} must be a list of ${SECRET_DETECTORS.map(d => `"${d}"`).join(', ')}. Using all detectors.`);
+        return SECRET_DETECTORS;
+    }
+    return value;
+}
+
+function parseSecretPatterns(value: unknown, warn: ConfigWarningHandler): SecretPattern[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        warn(`'secret_patterns' in ${SHEAFY_TOML_FILENAME} must be an array. Ignoring it.`);
+        return [];
+    }
+    const patterns: SecretPattern[] = [];
+    for (const item of value) {
+        const pattern = typeof item === 'string' ? { kind: 'custom', pattern: item } : { kind: item?.kind || 'custom', pattern: item?.pattern };
+        if (typeof pattern.pattern !== 'string' || typeof pattern.kind !== 'string') {
+            warn(`Entries of 'secret_patterns' in ${SHEAFY_TOML_FILENAME} must be strings or { kind, pattern } tables. Ignoring one.`);
+            continue;
+        }
+        try {
+            new RegExp(pattern.pattern);
+        } catch (error: any) {
+            warn(`Invalid regular expression in 'secret_patterns': ${error.message}`);
+            continue;
+        }
+        patterns.push(pattern);
+    }
+    return patterns;
+}
+
+const TRANSFORM_FLAGS = ['line_numbers', 'strip_comments', 'strip_license_header', 'collapse_blank_lines'] as const;
+const TRANSFORM_LINE_COUNTS = ['head_lines', 'tail_lines'] as const;
+
+// Validates one table of transform settings; `where` names it in warnings.
+function parseTransformSettings(value: any, where: string, warn: ConfigWarningHandler): Partial<TransformSettings> {
+    const settings: Partial<TransformSettings> = {};
+    for (const key of TRANSFORM_FLAGS) {
+        if (value[key] === undefined) {
+            continue;
+        }
+        if (typeof value[key] === 'boolean') {
+            settings[key] = value[key];
+        } else {
+            warn(`'${key}' in ${where} must be true or false. Ignoring it.`);
+        }
+    }
+    for (const key of TRANSFORM_LINE_COUNTS) {
+        if (value[key] === undefined) {
+            continue;
+        }
+        if (Number.isInteger(value[key]) && value[key] >= 0) {
+            settings[key] = value[key] === 0 ? null : value[key]; // 0 turns a limit from [sheafy.transforms] off again
+        } else {
+            warn(`'${key}' in ${where} must be a non-negative integer. Ignoring it.`);
+        }
+    }
+    return settings;
+}
+
+function parseTransformRules(value: unknown, warn: ConfigWarningHandler): TransformRule[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        warn(`'transform_rules' in ${SHEAFY_TOML_FILENAME} must be an array of tables ([[sheafy.transform_rules]]). Ignoring it.`);
+        return [];
+    }
+    const rules: TransformRule[] = [];
+    for (const item of value) {
+        const patterns = typeof item?.pattern === 'string' ? parsePatternList(item.pattern) : [];
+        if (patterns.length === 0) {
+            warn(`Every entry of 'transform_rules' in ${SHEAFY_TOML_FILENAME} needs a 'pattern'. Ignoring one.`);
+            continue;
+        }
+        rules.push({ patterns, settings: parseTransformSettings(item, `the transform rule for '${patterns.join(', ')}'`, warn) });
+    }
+    return rules;
+}
+
+// A placeholder that would be left in the output verbatim is a configuration error, not a warning.
+function validateTemplate(template: string, placeholders: readonly string[], where: string): void {
+    const unknown = findUnknownPlaceholders(template, placeholders);
+    if (unknown.length > 0) {
+        const list = (names: readonly string[]) => names.map(name => `{${name}}`).join(', ');
+        throw new SheafyConfigError(`Unknown placeholder${unknown.length > 1 ? 's' : ''} ${list(unknown)} in ${where}. Available: ${list(placeholders)}.`);
+    }
+}
+
+function parseTemplateRules(value: unknown, warn: ConfigWarningHandler): TemplateRule[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        warn(`'template_rules' in ${SHEAFY_TOML_FILENAME} must be an array of tables ([[sheafy.template_rules]]). Ignoring it.`);
+        return [];
+    }
+    const rules: TemplateRule[] = [];
+    for (const item of value) {
+        const patterns = typeof item?.pattern === 'string' ? parsePatternList(item.pattern) : [];
+        const languages = typeof item?.language === 'string' ? [item.language]
+            : Array.isArray(item?.language) ? item.language.filter((language: unknown) => typeof language === 'string') : [];
+        if ((patterns.length === 0 && languages.length === 0) || typeof item?.template !== 'string') {
+            warn(`Every entry of 'template_rules' in ${SHEAFY_TOML_FILENAME} needs a 'pattern' or 'language' and a 'template'. Ignoring one.`);
+            continue;
+        }
+        validateTemplate(item.template, TEMPLATE_PLACEHOLDERS, `the template rule for '${[...patterns, ...languages].join(', ')}' in ${SHEAFY_TOML_FILENAME}`);
+        rules.push({ patterns, languages, template: item.template });
+    }
+    return rules;
+}
+
+function parseLanguageMap(value: unknown, warn: ConfigWarningHandler): { [extension: string]: string } {
+    if (value === undefined) {
+        return {};
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        warn(`'language_map' in ${SHEAFY_TOML_FILENAME} must be a table of extensions and language ids ([sheafy.language_map]). Ignoring it.`);
+        return {};
+    }
+    const languageMap: { [extension: string]: string } = {};
+    for (const [extension, language] of Object.entries(value)) {
+        if (typeof language !== 'string' || !language) {
+            warn(`The language of '${extension}' in [sheafy.language_map] must be a non-empty string. Ignoring it.`);
+            continue;
+        }
+        languageMap[extension.replace(/^\./, '').toLowerCase()] = language;
+    }
+    return languageMap;
+}
+
+function parseLimit(value: unknown, key: string, warn: ConfigWarningHandler): number | null {
+    if (value === undefined) {
+        return null;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        warn(`'${key}' in ${SHEAFY_TOML_FILENAME} must be a positive number. Ignoring it.`);
+        return null;
+    }
+    return Math.floor(value);
+}
+
+function parseSplitLimit(value: unknown, warn: ConfigWarningHandler): SplitLimit | null {
+    if (value === undefined) {
+        return null;
+    }
+    const tokens = typeof value === 'string' ? value.trim().match(/^(\d+)\s*tokens?$/i) : null;
+    const limit = tokens ? parseInt(tokens[1], 10) : parseByteSize(value);
+    if (!limit) {
+        warn(`'split_at' in ${SHEAFY_TOML_FILENAME} must be a size such as "200KB" or a token count such as "50000 tokens". Ignoring it.`);
+        return null;
+    }
+    return { unit: tokens ? 'tokens' : 'bytes', limit };
+}
+
+/** File name of part `part` of a split bundle: "bundle.md" becomes "bundle.part2.md". */
+export function bundlePartName(bundleName: string, part: number | string): string {
+    const extension = path.extname(bundleName);
+    return `${bundleName.slice(0, bundleName.length - extension.length)}.part${part}${extension}`;
+}
+
+/**
+ * Reads the sheafy.toml in `basePath`. A missing file yields an empty document; a file that
+ * can't be read or parsed throws a SheafyConfigError.
+ */
+export async function readSheafyToml(basePath: string, warn: ConfigWarningHandler, fileSystem: FileSystem = nodeFileSystem): Promise<SheafyTomlDocument> {
+    const document: SheafyTomlDocument = { sheafy: null, profiles: {} };
+    const tomlPath = path.join(basePath, SHEAFY_TOML_FILENAME);
+    let parsedToml;
+    try {
+        const tomlContent = await readTextFile(fileSystem, tomlPath);
+        parsedToml = parse(tomlContent); // @iarna/toml can throw TomlError
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return document; // sheafy.toml not found, which is fine.
+        } else if (error.name === 'TomlError') { // Check for TomlError specifically
+            throw new SheafyConfigError(`Error parsing ${SHEAFY_TOML_FILENAME}: ${error.message} (line ${error.line}, col ${error.col}).`);
+        }
+        throw new SheafyConfigError(`Error reading ${SHEAFY_TOML_FILENAME}: ${error.message}`);
+    }
+    // Values of the wrong type are dropped here, so that the defaults apply. Unknown keys are only
+    // reported by the diagnostics of the editor.
+    for (const issue of validateSheafyDocument(parsedToml)) {
+        const key = issue.path[issue.path.length - 1];
+        if (!issue.ignored || typeof key !== 'string') {
+            continue;
+        }
+        const parent = issue.path.slice(0, -1).reduce((value: any, part) => value?.[part], parsedToml);
+        if (parent && typeof parent === 'object') {
+            delete parent[key];
+            warn(`${describeTable(issue.path.slice(0, -1))} in ${SHEAFY_TOML_FILENAME}: ${issue.message} Ignoring it.`);
+        }
+    }
+    if (parsedToml.sheafy && typeof parsedToml.sheafy === 'object') {
+        document.sheafy = parsedToml.sheafy as SheafyTomlConfig;
+    }
+    if (parsedToml.profiles && typeof parsedToml.profiles === 'object') {
+        for (const [name, profile] of Object.entries(parsedToml.profiles)) {
+            if (profile && typeof profile === 'object' && !Array.isArray(profile)) {
+                document.profiles[name] = profile as SheafyTomlConfig;
+            }
+        }
+    }
+    if (!document.sheafy && Object.keys(document.profiles).length === 0) {
+        warn(`${SHEAFY_TOML_FILENAME} found, but is missing a [sheafy] section or is malformed. Using defaults.`);
+    }
+    return document;
+}
+
+/**
+ * Merges the settings and a parsed sheafy.toml into the effective configuration of the project in
+ * `basePath`. `profileName` selects a `[profiles.<name>]` table; when omitted, the `defaultProfile`
+ * setting is used, and `null` explicitly selects the plain `[sheafy]` table. Exports with the
+ * configuration read and write through `fileSystem`.
+ */
+export function resolveSheafyConfig(
+    basePath: string,
+    rootName: string,
+    vscodeConfig: SheafyVSCodeSettings,
+    tomlDocument: SheafyTomlDocument,
+    profileName: string | null | undefined,
+    warn: ConfigWarningHandler,
+    fileSystem: FileSystem = nodeFileSystem
+): MergedSheafyConfig {
+    // 1. Apply the selected profile
+    let activeProfile: string | null = null;
+    if (profileName) {
+        if (!tomlDocument.profiles[profileName]) {
+            throw new Error(`Profile '${profileName}' is not defined in ${SHEAFY_TOML_FILENAME}.`);
+        }
+        activeProfile = profileName;
+    } else if (profileName === undefined && vscodeConfig.defaultProfile) {
+        if (tomlDocument.profiles[vscodeConfig.defaultProfile]) {
+            activeProfile = vscodeConfig.defaultProfile;
+        } else {
+            warn(`Default profile '${vscodeConfig.defaultProfile}' is not defined in ${SHEAFY_TOML_FILENAME}. Using [sheafy].`);
+        }
+    }
+    let tomlConfig: SheafyTomlConfig | null = tomlDocument.sheafy;
+    if (activeProfile) {
+        tomlConfig = { ...tomlDocument.sheafy, ...tomlDocument.profiles[activeProfile] };
+    }
+
+    // 2. Merge and establish effective values
+    const effectiveBundleName = tomlConfig?.bundle_name || "project_bundle.md";
+    const effectiveWorkingDir = path.resolve(basePath, tomlConfig?.working_dir || ".");
+
+    let effectiveUseGitignore = vscodeConfig.respectGitignore; // Default to VSCode setting
+    if (tomlConfig?.use_gitignore !== undefined) { // If sheafy.toml specifies it, it takes precedence
+        effectiveUseGitignore = tomlConfig.use_gitignore;
+    }
+
+    const effectiveIgnorePatternsArray = parsePatternList(tomlConfig?.ignore_patterns);
+
+    let effectiveMaxFileSize: number | null = DEFAULT_MAX_FILE_SIZE;
+    if (tomlConfig?.max_file_size !== undefined) {
+        const parsedSize = parseByteSize(tomlConfig.max_file_size);
+        if (parsedSize === null) {
+            warn(`'max_file_size' in ${SHEAFY_TOML_FILENAME} is not a valid size. Using the default of 1 MB.`);
+        } else {
+            effectiveMaxFileSize = parsedSize === 0 ? null : parsedSize;
+        }
+    }
+
+    let effectiveExportDestinations = vscodeConfig.exportDestinations;
+    if (tomlConfig?.export_destinations !== undefined) {
+        const destinations = tomlConfig.export_destinations;
+        if (Array.isArray(destinations) && destinations.every(dest => EXPORT_DESTINATIONS.includes(dest))) {
+            effectiveExportDestinations = destinations;
+        } else {
+            warn(`'export_destinations' in ${SHEAFY_TOML_FILENAME} must be a list of ${EXPORT_DESTINATIONS.map(d => `"${d}"`).join(', ')}. Ignoring it.`);
+        }
+    }
+
+    // Without an explicit format, a customized template keeps being used as before.
+    const effectiveTemplate = tomlConfig?.export_format_template ?? vscodeConfig.exportFormatTemplate;
+    let effectiveFormat: BundleFormat = effectiveTemplate !== DEFAULT_EXPORT_FORMAT_TEMPLATE ? 'custom' : 'markdown';
+    if (tomlConfig?.format !== undefined) {
+        if (BUNDLE_FORMATS.includes(tomlConfig.format)) {
+            effectiveFormat = tomlConfig.format;
+        } else {
+            warn(`Unknown format '${tomlConfig.format}' in ${SHEAFY_TOML_FILENAME}. Expected one of ${BUNDLE_FORMATS.join(', ')}.`);
+        }
+    }
+
+    const secretModes: SecretMode[] = ['redact', 'block', 'off'];
+    let effectiveSecretMode: SecretMode = 'redact';
+    if (tomlConfig?.secret_mode !== undefined) {
+        if (secretModes.includes(tomlConfig.secret_mode)) {
+            effectiveSecretMode = tomlConfig.secret_mode;
+        } else {
+            warn(`Unknown secret_mode '${tomlConfig.secret_mode}' in ${SHEAFY_TOML_FILENAME}. Expected one of ${secretModes.join(', ')}.`);
+        }
+    }
+
+    if (effectiveFormat === 'custom') {
+        validateTemplate(effectiveTemplate, TEMPLATE_PLACEHOLDERS, tomlConfig?.export_format_template !== undefined
+            ? `'export_format_template' in ${SHEAFY_TOML_FILENAME}`
+            : 'the sheafy.exportFormatTemplate setting');
+    }
+    const effectiveSkippedFileTemplate = tomlConfig?.skipped_file_template ?? DEFAULT_SKIPPED_FILE_TEMPLATE;
+    validateTemplate(effectiveSkippedFileTemplate, SKIPPED_FILE_PLACEHOLDERS, `'skipped_file_template' in ${SHEAFY_TOML_FILENAME}`);
+
+    const budgetPriorities: BudgetPriority[] = ['order', 'smallest_first', 'most_recent'];
+    let effectiveBudgetPriority: BudgetPriority = 'order';
+    if (tomlConfig?.budget_priority !== undefined) {
+        if (budgetPriorities.includes(tomlConfig.budget_priority)) {
+            effectiveBudgetPriority = tomlConfig.budget_priority;
+        } else {
+            warn(`Unknown budget_priority '${tomlConfig.budget_priority}' in ${SHEAFY_TOML_FILENAME}. Expected one of ${budgetPriorities.join(', ')}.`);
+        }
+    }
+
+    const budgetActions: BudgetAction[] = ['drop', 'truncate'];
+    let effectiveBudgetAction: BudgetAction = 'drop';
+    if (tomlConfig?.budget_action !== undefined) {
+        if (budgetActions.includes(tomlConfig.budget_action)) {
+            effectiveBudgetAction = tomlConfig.budget_action;
+        } else {
+            warn(`Unknown budget_action '${tomlConfig.budget_action}' in ${SHEAFY_TOML_FILENAME}. Expected one of ${budgetActions.join(', ')}.`);
+        }
+    }
+
+    const gitDiffModes: GitDiffMode[] = ['none', 'append', 'only'];
+    let effectiveGitDiff: GitDiffMode = 'none';
+    if (tomlConfig?.git_diff !== undefined) {
+        if (gitDiffModes.includes(tomlConfig.git_diff)) {
+            effectiveGitDiff = tomlConfig.git_diff;
+        } else {
+            warn(`Unknown git_diff '${tomlConfig.git_diff}' in ${SHEAFY_TOML_FILENAME}. Expected one of ${gitDiffModes.join(', ')}.`);
+        }
+    }
+
+    return {
+        tomlConfig,
+        profile: activeProfile,
+        vscodeSettings: vscodeConfig,
+        bundle_name: effectiveBundleName,
+        working_dir: effectiveWorkingDir,
+        use_gitignore: effectiveUseGitignore,
+        ignore_patterns_array: effectiveIgnorePatternsArray,
+        include_patterns_array: parsePatternList(tomlConfig?.include_patterns),
+        include_extensions: parseExtensionList(tomlConfig?.include_extensions, 'include_extensions', warn),
+        exclude_extensions: parseExtensionList(tomlConfig?.exclude_extensions, 'exclude_extensions', warn),
+        prologue: tomlConfig?.prologue || "",
+        epilogue: tomlConfig?.epilogue || "",
+        basePath: basePath,
+        root_name: rootName,
+        prefix_root_name: tomlConfig?.prefix_root_name === true,
+        format: effectiveFormat,
+        include_tree: tomlConfig?.include_tree === true,
+        tree_depth: parseLimit(tomlConfig?.tree_depth || undefined, 'tree_depth', warn),
+        tree_details: tomlConfig?.tree_details === true,
+        exportFormatTemplate: effectiveTemplate,
+        exportDestinations: effectiveExportDestinations.length > 0 ? effectiveExportDestinations : ['clipboard'], // Ensure at least one default
+        folderExportPathRelativeToClickedFolder: vscodeConfig.folderExportPathRelativeToClickedFolder, // <--- 添加到返回对象
+        max_tokens: parseLimit(tomlConfig?.max_tokens || undefined, 'max_tokens', warn), // 0 lets a profile turn a budget off
+        max_bytes: parseLimit(tomlConfig?.max_bytes || undefined, 'max_bytes', warn),
+        priority_patterns_array: parsePatternList(tomlConfig?.priority_patterns),
+        budget_priority: effectiveBudgetPriority,
+        budget_action: effectiveBudgetAction,
+        max_file_size: effectiveMaxFileSize,
+        split_at: parseSplitLimit(tomlConfig?.split_at, warn),
+        part_prologue: tomlConfig?.part_prologue ?? '',
+        part_epilogue: tomlConfig?.part_epilogue ?? '',
+        skipped_file_template: effectiveSkippedFileTemplate,
+        dependency_depth: parseLimit(tomlConfig?.dependency_depth, 'dependency_depth', warn) ?? DEFAULT_DEPENDENCY_DEPTH,
+        git_diff: effectiveGitDiff,
+        secret_mode: effectiveSecretMode,
+        secret_detectors: parseSecretDetectors(tomlConfig?.secret_detectors, warn),
+        secret_patterns: parseSecretPatterns(tomlConfig?.secret_patterns, warn),
+        transforms: {
+            ...NO_TRANSFORMS,
+            ...(tomlConfig?.transforms && typeof tomlConfig.transforms === 'object'
+                ? parseTransformSettings(tomlConfig.transforms, `[sheafy.transforms] in ${SHEAFY_TOML_FILENAME}`, warn)
+                : {}),
+        },
+        transform_rules: parseTransformRules(tomlConfig?.transform_rules, warn),
+        template_rules: parseTemplateRules(tomlConfig?.template_rules, warn),
+        language_map: parseLanguageMap(tomlConfig?.language_map, warn),
+        fileSystem,
+    };
+}
@@ -0,0 +1,315 @@
+// src/configSchema.ts
+import { BUNDLE_FORMATS, TEMPLATE_PLACEHOLDERS } from './formats';
+import { SECRET_DETECTORS } from './redaction';
+import { parseByteSize } from './utils';
+
+/**
+ * Kinds of values in sheafy.toml. `size` is a number of bytes or a string such as "512KB",
+ * `split` additionally accepts "50000 tokens"; `tables` is an array of tables ([[...]]).
+ */
+export type ConfigValueType =
+    'string' | 'boolean' | 'integer' | 'size' | 'split' | 'strings' | 'string-or-strings' | 'secret-patterns' | 'table' | 'tables';
+
+export interface KeySchema {
+    type: ConfigValueType;
+    description: string;
+    example?: string; // Value inserted by completion, as written in TOML
+    values?: readonly string[]; // Allowed strings (for `strings`: allowed items)
+    min?: number; // Smallest allowed integer
+    placeholders?: readonly string[]; // Placeholders a template may contain
+    keys?: { [key: string]: KeySchema }; // Keys of a `table` or of each of the `tables`
+    anyKey?: KeySchema; // Schema of every key of a table with free-form keys
+    required?: readonly string[]; // Keys every one of the `tables` needs
+}
+
+/** A problem found by validateSheafyDocument. */
+export interface SchemaIssue {
+    path: Array<string | number>; // From the document root, e.g. ['sheafy', 'transform_rules', 0, 'head_lines']
+    severity: 'error' | 'warning';
+    message: string;
+    ignored: boolean; // The value has the wrong type or is not allowed, so it is not used
+}
+
+export const SKIPPED_FILE_PLACEHOLDERS = ['relpath', 'reason', 'size'];
+
+const TRANSFORM_KEYS: { [key: string]: KeySchema } = {
+    line_numbers: { type: 'boolean', description: 'Prefix every line with its line number in the original file.', example: 'true' },
+    strip_comments: { type: 'boolean', description: 'Remove comments (for languages with known comment syntax).', example: 'true' },
+    strip_license_header: { type: 'boolean', description: 'Remove the leading comment if it mentions a license or copyright.', example: 'true' },
+    collapse_blank_lines: { type: 'boolean', description: 'Collapse runs of blank lines into one.', example: 'true' },
+    head_lines: { type: 'integer', min: 0, description: 'Keep only the first N lines of longer files; 0 turns a global limit off.', example: '40' },
+    tail_lines: { type: 'integer', min: 0, description: 'Keep only the last N lines of longer files; 0 turns a global limit off.', example: '10' },
+};
+
+/** The keys of `[sheafy]` and of every `[profiles.<name>]` table. */
+export const SHEAFY_KEYS: { [key: string]: KeySchema } = {
+    bundle_name: { type: 'string', description: 'Name of the bundle file written by the rootDir and workingDir destinations.', example: '"project_bundle.md"' },
+    working_dir: { type: 'string', description: 'Directory of the workingDir destination, relative to the project root.', example: '"."' },
+    use_gitignore: { type: 'boolean', description: 'Respect .gitignore files. Overrides the sheafy.respectGitignore setting.', example: 'true' },
+    ignore_patterns: { type: 'string', description: 'Extra ignore patterns, one per line (gitignore syntax).', example: '"""\n$1\n"""' },
+    include_patterns: { type: 'string', description: 'If set, only files matching these patterns (one per line, gitignore syntax) are exported.', example: '"""\n$1\n"""' },
+    include_extensions: { type: 'string-or-strings', description: 'If set, only files with these extensions are exported.', example: '["ts", "md"]' },
+    exclude_extensions: { type: 'string-or-strings', description: 'Files with these extensions are never exported.', example: '["lock"]' },
+    prologue: { type: 'string', description: 'Text at the start of the bundle. `{tree}` inserts the directory tree.', example: '""' },
+    epilogue: { type: 'string', description: 'Text at the end of the bundle.', example: '""' },
+    max_tokens: { type: 'integer', min: 0, description: 'Estimated token budget of the whole bundle. Files are dropped or truncated by priority; 0 means no budget.', example: '100000' },
+    max_bytes: { type: 'integer', min: 0, description: 'Byte budget of the whole bundle; 0 means no budget.', example: '400000' },
+    priority_patterns: { type: 'string', description: 'Files kept first when the budget is exceeded, one pattern per line; earlier patterns win.', example: '"""\n$1\n"""' },
+    budget_priority: { type: 'string', values: ['order', 'smallest_first', 'most_recent'], description: 'Order of the files within a priority tier when the budget is exceeded.', example: '"order"' },
+    budget_action: { type: 'string', values: ['drop', 'truncate'], description: 'What happens to the first file that does not fit the budget.', example: '"drop"' },
+    max_file_size: { type: 'size', description: 'Files larger than this are not read: bytes, or a size such as "512KB". 0 disables the limit. Default: "1MB".', example: '"1MB"' },
+    split_at: { type: 'split', description: 'Split larger bundles into numbered parts: a size such as "200KB", or estimated tokens such as "50000 tokens".', example: '"50000 tokens"' },
+    part_prologue: { type: 'string', description: 'Added to the start of every part of a split bundle. Placeholders: `{part}`, `{parts}`.', example: '""' },
+    part_epilogue: { type: 'string', description: 'Added to the end of every part of a split bundle. Placeholders: `{part}`, `{parts}`.', example: '""' },
+    skipped_file_template: { type: 'string', placeholders: SKIPPED_FILE_PLACEHOLDERS, description: 'Line shown instead of the content of binary or oversized files. "" leaves them out.', example: '"[{reason}, {size}, skipped]"' },
+    dependency_depth: { type: 'integer', min: 1, description: 'How many imports deep "Export file with dependencies" follows. Default: 3.', example: '3' },
+    format: { type: 'string', values: BUNDLE_FORMATS, description: 'Output format of the bundle.', example: '"markdown"' },
+    include_tree: { type: 'boolean', description: 'Insert a directory tree and an index of the files between the prologue and the files.', example: 'true' },
+    tree_depth: { type: 'integer', min: 0, description: 'Collapse directories deeper than this many levels in the tree; 0 means unlimited.', example: '3' },
+    tree_details: { type: 'boolean', description: 'Show sizes and line counts in the tree.', example: 'true' },
+    export_format_template: { type: 'string', placeholders: TEMPLATE_PLACEHOLDERS, description: 'Template of every file in the custom format. Overrides the sheafy.exportFormatTemplate setting.', example: '"### {relpath}\\n\\n```{lang}\\n{content}\\n```\\n"' },
+    export_destinations: { type: 'strings', values: ['clipboard', 'tempTab', 'rootDir', 'workingDir'], description: 'Where exports go. Overrides the sheafy.exportDestinations setting.', example: '["clipboard"]' },
+    git_diff: { type: 'string', values: ['none', 'append', 'only'], description: 'Git exports: append each file\'s unified diff, or export only the diffs.', example: '"append"' },
+    prefix_root_name: { type: 'boolean', description: 'Prefix paths with the workspace folder name.', example: 'true' },
+    secret_mode: { type: 'string', values: ['redact', 'block', 'off'], description: 'Redact secrets, block exports that contain secrets, or turn scanning off.', example: '"redact"' },
+    secret_detectors: { type: 'strings', values: SECRET_DETECTORS, description: 'Built-in secret detectors to run. Default: all.', example: '["pem", "aws"]' },
+    secret_patterns: { type: 'secret-patterns', description: 'Extra regular expressions for secrets: strings, or `{ kind, pattern }` tables.', example: '[]' },
+    transforms: { type: 'table', keys: TRANSFORM_KEYS, description: 'Content transforms for every file.' },
+    transform_rules: {
+        type: 'tables',
+        keys: { pattern: { type: 'string', description: 'Files the rule applies to, one pattern per line (gitignore syntax).', example: '"tests/**"' }, ...TRANSFORM_KEYS },
+        required: ['pattern'],
+        description: 'Per-glob overrides of [sheafy.transforms]. Every matching rule applies; later rules win.',
+    },
+    template_rules: {
+        type: 'tables',
+        keys: {
+            pattern: { type: 'string', description: 'Files the template is used for, one pattern per line (gitignore syntax).', example: '"*.md"' },
+            language: { type: 'string-or-strings', description: 'Language id (or a list of them) the template is used for.', example: '"markdown"' },
+            template: { type: 'string', placeholders: TEMPLATE_PLACEHOLDERS, description: 'Template of the matching files.', example: '"{content}"' },
+        },
+        required: ['template'],
+        description: 'Per-glob or per-language templates. The last matching rule wins.',
+    },
+    language_map: {
+        type: 'table',
+        anyKey: { type: 'string', description: 'Language id of files with this extension (or file name).' },
+        description: 'Extension (or file name) to language id mappings on top of the built-in table, e.g. `mdx = "markdown"`.',
+    },
+};
+
+const SHEAFY_TABLE: KeySchema = { type: 'table', keys: SHEAFY_KEYS, description: 'Sheafy export configuration.' };
+
+/** Schema of the whole sheafy.toml. */
+export const SHEAFY_TOML_SCHEMA: KeySchema = {
+    type: 'table',
+    description: 'sheafy.toml',
+    keys: {
+        sheafy: SHEAFY_TABLE,
+        profiles: {
+            type: 'table',
+            anyKey: { ...SHEAFY_TABLE, description: 'A named profile. Inherits every key from [sheafy] and may override any of them.' },
+            description: 'Named profiles, selected with "Sheafy: Export with profile..." or the sheafy.defaultProfile setting.',
+        },
+    },
+};
+
+/** The schema of the value at `path`, or undefined for unknown keys. */
+export function schemaForPath(path: Array<string | number>): KeySchema | undefined {
+    let schema: KeySchema | undefined = SHEAFY_TOML_SCHEMA;
+    for (const key of path) {
+        if (!schema) {
+            return undefined;
+        }
+        if (typeof key === 'number') {
+            schema = schema.type === 'tables' ? { type: 'table', keys: schema.keys, description: schema.description } : undefined;
+        } else {
+            schema = schema.keys?.[key] ?? schema.anyKey;
+        }
+    }
+    return schema;
+}
+
+/** Names of the `{name}` placeholders in `template` that are not in `placeholders`. */
+export function findUnknownPlaceholders(template: string, placeholders: readonly string[]): string[] {
+    return [...new Set([...template.matchAll(/{(\w+)}/g)].map(match => match[1]))].filter(name => !placeholders.includes(name));
+}
+
+/** `[sheafy.transform_rules]` for a path such as ['sheafy', 'transform_rules', 0]. */
+export function describeTable(path: Array<string | number>): string {
+    return `[${path.filter(key => typeof key === 'string').join('.')}]`;
+}
+
+function describeValue(value: unknown): string {
+    if (Array.isArray(value)) {
+        return 'an array';
+    }
+    if (value instanceof Date) {
+        return 'a date';
+    }
+    if (value && typeof value === 'object') {
+        return 'a table';
+    }
+    return typeof value === 'string' ? `the string ${JSON.stringify(value)}` : `${typeof value} ${String(value)}`;
+}
+
+function isTable(value: unknown): value is { [key: string]: unknown } {
+    return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Levenshtein distance, for "did you mean" suggestions of misspelled keys.
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+    const scored = known.map(candidate => ({ candidate, distance: editDistance(key, candidate) }))
+        .filter(({ distance }) => distance <= 2)
+        .sort((a, b) => a.distance - b.distance);
+    return scored[0]?.candidate;
+}
+
+// The reason `value` does not match a scalar or list `schema`, or null if it does.
+function checkScalar(schema: KeySchema, value: unknown): string | null {
+    const quoted = (values: readonly string[]) => values.map(allowed => `"${allowed}"`).join(', ');
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                return 'must be a string';
+            }
+            return schema.values && !schema.values.includes(value) ? `must be one of ${quoted(schema.values)}` : null;
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'must be true or false (without quotes)';
+        case 'integer':
+            if (typeof value === 'number' && Number.isInteger(value) && value >= (schema.min ?? -Infinity)) {
+                return null;
+            }
+            return schema.min === 1 ? 'must be a positive integer' : schema.min === 0 ? 'must be a non-negative integer' : 'must be an integer';
+        case 'size':
+            return parseByteSize(value) !== null ? null : 'must be a number of bytes or a size such as "512KB"';
+        case 'split': {
+            const isTokens = typeof value === 'string' && /^\s*\d+\s*tokens?\s*$/i.test(value);
+            return isTokens || parseByteSize(value) ? null : 'must be a size such as "200KB" or a token count such as "50000 tokens"';
+        }
+        case 'strings':
+            if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+                return 'must be an array of strings';
+            }
+            const unknown = schema.values ? value.filter(item => !schema.values!.includes(item)) : [];
+            return unknown.length > 0 ? `may only contain ${quoted(schema.values!)}, not ${quoted(unknown)}` : null;
+        case 'string-or-strings':
+            return typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'))
+                ? null
+                : 'must be a string or an array of strings';
+        default:
+            return null;
+    }
+}
+
+function checkValue(schema: KeySchema, value: unknown, path: Array<string | number>, issues: SchemaIssue[]): void {
+    const key = path[path.length - 1];
+    const name = typeof key === 'string' ? `'${key}'` : `Entry ${key + 1}`;
+    const error = (message: string, ignored = true, at = path) => issues.push({ path: at, severity: 'error', message, ignored });
+
+    if (schema.type === 'table') {
+        if (!isTable(value)) {
+            error(`${name} must be a table, not ${describeValue(value)}.`);
+            return;
+        }
+        for (const [childKey, childValue] of Object.entries(value)) {
+            const childSchema = schema.keys?.[childKey] ?? schema.anyKey;
+            if (childSchema) {
+                checkValue(childSchema, childValue, [...path, childKey], issues);
+                continue;
+            }
+            const suggestion = suggestKey(childKey, Object.keys(schema.keys ?? {}));
+            issues.push({
+                path: [...path, childKey],
+                severity: 'warning',
+                message: `Unknown key '${childKey}' in ${describeTable(path)}${suggestion ? `. Did you mean '${suggestion}'?` : '; it is ignored.'}`,
+                ignored: false,
+            });
+        }
+        return;
+    }
+    if (schema.type === 'tables') {
+        if (!Array.isArray(value) || !value.every(isTable)) {
+            error(`${name} must be an array of tables ([[${path.filter(part => typeof part === 'string').join('.')}]]).`);
+            return;
+        }
+        value.forEach((item, i) => {
+            const missing = (schema.required ?? []).filter(requiredKey => item[requiredKey] === undefined);
+            if (missing.length > 0) {
+                // Sheafy skips the entry and warns about it when exporting.
+                error(`Entry ${i + 1} of ${name} needs ${missing.map(requiredKey => `'${requiredKey}'`).join(' and ')}.`, false, [...path, i]);
+            }
+            checkValue({ ...schema, type: 'table' }, item, [...path, i], issues);
+        });
+        return;
+    }
+    if (schema.type === 'secret-patterns') {
+        if (!Array.isArray(value)) {
+            error(`${name} must be an array of strings or { kind, pattern } tables.`);
+            return;
+        }
+        value.forEach((item, i) => {
+            const pattern = typeof item === 'string' ? item : isTable(item) && typeof item.pattern === 'string' ? item.pattern : null;
+            if (pattern === null) {
+                error(`Entry ${i + 1} of ${name} must be a string or a { kind, pattern } table.`, false, [...path, i]);
+                return;
+            }
+            try {
+                new RegExp(pattern);
+            } catch (regexError: any) {
+                error(`Entry ${i + 1} of ${name} is not a valid regular expression: ${regexError.message}`, false, [...path, i]);
+            }
+        });
+        return;
+    }
+
+    const problem = checkScalar(schema, value);
+    if (problem) {
+        error(`${name} ${problem}, not ${describeValue(value)}.`);
+        return;
+    }
+    if (schema.placeholders && typeof value === 'string') {
+        const unknown = findUnknownPlaceholders(value, schema.placeholders);
+        if (unknown.length > 0) {
+            // Not ignored: an export with this template fails until it is fixed.
+            const list = (names: readonly string[]) => names.map(placeholder => `{${placeholder}}`).join(', ');
+            error(`Unknown placeholder${unknown.length > 1 ? 's' : ''} ${list(unknown)} in ${name}. Available: ${list(schema.placeholders)}.`, false);
+        }
+    }
+}
+
+/**
+ * Checks a parsed sheafy.toml against the schema: unknown keys (warnings), values of the wrong
+ * type or outside the allowed ones, and templates with unknown placeholders (errors).
+ */
+export function validateSheafyDocument(document: { [key: string]: unknown }): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    for (const [key, value] of Object.entries(document)) {
+        const schema = SHEAFY_TOML_SCHEMA.keys![key];
+        if (schema) {
+            checkValue(schema, value, [key], issues);
+        } else {
+            issues.push({
+                path: [key],
+                severity: 'warning',
+                message: SHEAFY_KEYS[key]
+                    ? `'${key}' is outside the [sheafy] table and is ignored. Move it below [sheafy].`
+                    : `Unknown table or key '${key}'; Sheafy only reads [sheafy] and [profiles.<name>].`,
+                ignored: false,
+            });
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,324 @@
+// src/dependencies.ts
+import * as path from 'path';
+import { DependencyEdge } from './types';
+import { applyTransforms, NO_TRANSFORMS } from './transforms';
+import { FileSystem, nodeFileSystem, readTextFile } from './fileSystem';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+// TypeScript sources are often imported by the name of their output (`import './util.js'`).
+const OUTPUT_TO_SOURCE_EXTENSIONS: { [extension: string]: string[] } = {
+    '.js': ['.ts', '.tsx'], '.jsx': ['.tsx'], '.mjs': ['.mts'], '.cjs': ['.cts'],
+};
+
+const TSCONFIG_FILENAMES = ['tsconfig.json', 'jsconfig.json'];
+
+export interface DependencyGraph {
+    files: string[]; // Absolute paths in discovery order, starting with the entry files
+    edges: DependencyEdge[];
+}
+
+interface PathMapping {
+    baseUrl: string | null; // Absolute
+    pathsBase: string; // Directory that `paths` targets are relative to
+    paths: { [pattern: string]: string[] };
+}
+
+/** Caches file system lookups and parsed tsconfig files for one resolution run. */
+interface ResolverContext {
+    basePath: string;
+    fileSystem: FileSystem;
+    isFileCache: Map<string, Promise<boolean>>;
+    mappingCache: Map<string, Promise<PathMapping | null>>;
+}
+
+function isFile(context: ResolverContext, filePath: string): Promise<boolean> {
+    let cached = context.isFileCache.get(filePath);
+    if (!cached) {
+        cached = context.fileSystem.stat(filePath).then(stat => stat.isFile, () => false);
+        context.isFileCache.set(filePath, cached);
+    }
+    return cached;
+}
+
+async function firstFile(context: ResolverContext, candidates: string[]): Promise<string | null> {
+    for (const candidate of candidates) {
+        if (await isFile(context, candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+function stripComments(content: string, languageId: string): string {
+    return applyTransforms(content, languageId, { ...NO_TRANSFORMS, strip_comments: true });
+}
+
+function isInside(dir: string, filePath: string): boolean {
+    const rel = path.relative(dir, filePath);
+    return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+// --- TypeScript / JavaScript ---
+
+async function readTsConfig(context: ResolverContext, configPath: string, depth = 0): Promise<any> {
+    let config: any;
+    try {
+        // tsconfig.json allows comments and trailing commas.
+        const text = stripComments(await readTextFile(context.fileSystem, configPath), 'javascript');
+        config = JSON.parse(text.replace(/,(\s*[}\]])/g, '$1'));
+    } catch (error: any) {
+        console.warn(`Sheafy: Could not read ${configPath}: ${error.message}`);
+        return {};
+    }
+    // Only relative `extends` are followed; shared configs from packages rarely define paths.
+    if (typeof config.extends === 'string' && config.extends.startsWith('.') && depth < 5) {
+        let parentPath = path.resolve(path.dirname(configPath), config.extends);
+        if (!parentPath.endsWith('.json')) {
+            parentPath += '.json';
+        }
+        const parent = await readTsConfig(context, parentPath, depth + 1);
+        // Relative options of the parent stay relative to the parent's directory.
+        const parentOptions = { ...parent.compilerOptions };
+        if (parentOptions.baseUrl && !parentOptions.__baseDir) {
+            parentOptions.__baseDir = path.dirname(parentPath);
+        }
+        if (parentOptions.paths && !parentOptions.__pathsDir) {
+            parentOptions.__pathsDir = parentOptions.__baseDir ?? path.dirname(parentPath);
+        }
+        config = { ...config, compilerOptions: { ...parentOptions, ...config.compilerOptions } };
+    }
+    return config;
+}
+
+// The tsconfig.json / jsconfig.json closest to `dir`, searched up to the project root.
+function findPathMapping(context: ResolverContext, dir: string): Promise<PathMapping | null> {
+    let cached = context.mappingCache.get(dir);
+    if (!cached) {
+        cached = (async () => {
+            const configPath = await firstFile(context, TSCONFIG_FILENAMES.map(name => path.join(dir, name)));
+            if (configPath) {
+                const options = (await readTsConfig(context, configPath)).compilerOptions ?? {};
+                const configDir = path.dirname(configPath);
+                const baseUrl = typeof options.baseUrl === 'string' ? path.resolve(options.__baseDir ?? configDir, options.baseUrl) : null;
+                const paths = options.paths && typeof options.paths === 'object' ? options.paths : {};
+                return { baseUrl, pathsBase: baseUrl ?? options.__pathsDir ?? configDir, paths };
+            }
+            const parent = path.dirname(dir);
+            return dir === context.basePath || parent === dir || !isInside(context.basePath, parent) ? null : findPathMapping(context, parent);
+        })();
+        context.mappingCache.set(dir, cached);
+    }
+    return cached;
+}
+
+async function resolveScriptFile(context: ResolverContext, candidate: string): Promise<string | null> {
+    const extension = path.extname(candidate);
+    const stem = candidate.slice(0, candidate.length - extension.length);
+    return firstFile(context, [
+        candidate,
+        ...(OUTPUT_TO_SOURCE_EXTENSIONS[extension] ?? []).map(sourceExtension => stem + sourceExtension),
+        ...SCRIPT_EXTENSIONS.map(ext => candidate + ext),
+        ...SCRIPT_EXTENSIONS.map(ext => path.join(candidate, 'index' + ext)),
+    ]);
+}
+
+// Resolves `specifier` like TypeScript: relative paths, then `paths` (longest prefix wins), then baseUrl.
+async function resolveScriptImport(context: ResolverContext, fromFile: string, specifier: string): Promise<string | null> {
+    if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+        return resolveScriptFile(context, path.resolve(path.dirname(fromFile), specifier));
+    }
+    const mapping = await findPathMapping(context, path.dirname(fromFile));
+    if (!mapping) {
+        return null; // A package
+    }
+    let bestMatch: { pattern: string; wildcard: string } | null = null;
+    for (const pattern of Object.keys(mapping.paths)) {
+        const star = pattern.indexOf('*');
+        if (star < 0) {
+            if (pattern === specifier) {
+                bestMatch = { pattern, wildcard: '' };
+                break;
+            }
+            continue;
+        }
+        const prefix = pattern.slice(0, star);
+        const suffix = pattern.slice(star + 1);
+        if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+            && (!bestMatch || prefix.length > bestMatch.pattern.indexOf('*'))) {
+            bestMatch = { pattern, wildcard: specifier.slice(prefix.length, specifier.length - suffix.length) };
+        }
+    }
+    if (bestMatch) {
+        for (const target of mapping.paths[bestMatch.pattern]) {
+            const resolved = await resolveScriptFile(context, path.resolve(mapping.pathsBase, target.replace('*', bestMatch.wildcard)));
+            if (resolved) {
+                return resolved;
+            }
+        }
+    }
+    return mapping.baseUrl ? resolveScriptFile(context, path.resolve(mapping.baseUrl, specifier)) : null;
+}
+
+function findScriptImports(content: string): string[] {
+    const specifiers: string[] = [];
+    const patterns = [
+        /\b(?:import|export)\s+(?:type\s+)?(?:[\w$*{}\s,]+?\s+from\s+)?['"]([^'"\n]+)['"]/g, // import x from 'y', import 'y', export * from 'y'
+        /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g, // require('y'), import('y')
+    ];
+    for (const pattern of patterns) {
+        for (const match of content.matchAll(pattern)) {
+            specifiers.push(match[1]);
+        }
+    }
+    return specifiers;
+}
+
+// --- Python ---
+
+// Directories that absolute imports are resolved against: the parent of the file's top-level
+// package, the project root and its src/ directory.
+async function pythonRoots(context: ResolverContext, filePath: string): Promise<string[]> {
+    let packageDir = path.dirname(filePath);
+    while (isInside(context.basePath, path.dirname(packageDir)) && packageDir !== context.basePath
+        && await isFile(context, path.join(packageDir, '__init__.py'))) {
+        packageDir = path.dirname(packageDir);
+    }
+    return [...new Set([packageDir, context.basePath, path.join(context.basePath, 'src')])];
+}
+
+function pythonModuleCandidates(dir: string, modulePath: string): string[] {
+    const base = path.join(dir, ...modulePath.split('.').filter(part => part));
+    return [base + '.py', path.join(base, '__init__.py')];
+}
+
+async function resolvePythonImports(context: ResolverContext, filePath: string, content: string): Promise<string[]> {
+    const resolved: Array<string | null> = [];
+    const roots = await pythonRoots(context, filePath);
+    const resolveAbsolute = async (modulePath: string) => {
+        for (const root of roots) {
+            const found = await firstFile(context, pythonModuleCandidates(root, modulePath));
+            if (found) {
+                return found;
+            }
+        }
+        return null;
+    };
+
+    for (const match of content.matchAll(/^[ \t]*import[ \t]+([\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*)/gm)) {
+        for (const item of match[1].split(',')) {
+            resolved.push(await resolveAbsolute(item.trim().split(/\s+/)[0]));
+        }
+    }
+    for (const match of content.matchAll(/^[ \t]*from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+(?:\(([^)]*)\)|([^\n]*))/gm)) {
+        const [, dots, modulePath] = match;
+        const names = (match[3] ?? match[4]).split(',').map(name => name.trim().split(/\s+/)[0]).filter(name => name && name !== '*');
+        if (dots) {
+            // from .x import y: relative to the file's package, one level up per extra dot.
+            let dir = path.dirname(filePath);
+            for (let i = 1; i < dots.length; i++) {
+                dir = path.dirname(dir);
+            }
+            if (modulePath) {
+                resolved.push(await firstFile(context, pythonModuleCandidates(dir, modulePath)));
+            }
+            for (const name of names) {
+                resolved.push(await firstFile(context, pythonModuleCandidates(dir, modulePath ? `${modulePath}.${name}` : name)));
+            }
+        } else {
+            resolved.push(await resolveAbsolute(modulePath));
+            for (const name of names) {
+                // The imported names may be submodules (from pkg import module).
+                resolved.push(await resolveAbsolute(`${modulePath}.${name}`));
+            }
+        }
+    }
+    return resolved.filter((file): file is string => file !== null);
+}
+
+// --- Rust ---
+
+async function resolveRustModules(context: ResolverContext, filePath: string, content: string): Promise<string[]> {
+    const resolved: string[] = [];
+    const fileName = path.basename(filePath);
+    // main.rs, lib.rs and mod.rs own their directory; other files own a directory named after them.
+    const moduleDir = ['main.rs', 'lib.rs', 'mod.rs'].includes(fileName)
+        ? path.dirname(filePath)
+        : path.join(path.dirname(filePath), path.basename(filePath, '.rs'));
+    const pattern = /^[ \t]*(?:#\[path[ \t]*=[ \t]*"([^"]+)"\][ \t\r\n]*)?(?:pub(?:\([^)]*\))?[ \t]+)?mod[ \t]+(\w+)[ \t]*;/gm;
+    for (const match of content.matchAll(pattern)) {
+        const [, explicitPath, name] = match;
+        const found = explicitPath
+            ? await firstFile(context, [path.resolve(path.dirname(filePath), explicitPath)])
+            : await firstFile(context, [path.join(moduleDir, `${name}.rs`), path.join(moduleDir, name, 'mod.rs')]);
+        if (found) {
+            resolved.push(found);
+        }
+    }
+    return resolved;
+}
+
+async function findDependencies(context: ResolverContext, filePath: string): Promise<string[]> {
+    const extension = path.extname(filePath).toLowerCase();
+    const languageId = extension === '.py' ? 'python' : extension === '.rs' ? 'rust' : SCRIPT_EXTENSIONS.includes(extension) ? 'javascript' : null;
+    if (!languageId) {
+        return [];
+    }
+    let content: string;
+    try {
+        content = stripComments(await readTextFile(context.fileSystem, filePath), languageId);
+    } catch (error: any) {
+        console.warn(`Sheafy: Could not read ${filePath} to find its imports: ${error.message}`);
+        return [];
+    }
+    if (languageId === 'python') {
+        return resolvePythonImports(context, filePath, content);
+    }
+    if (languageId === 'rust') {
+        return resolveRustModules(context, filePath, content);
+    }
+    const resolved: string[] = [];
+    for (const specifier of findScriptImports(content)) {
+        const found = await resolveScriptImport(context, filePath, specifier);
+        if (found) {
+            resolved.push(found);
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Follows the imports of `entryFiles` breadth-first, up to `maxDepth` imports away: relative
+ * imports and requires of TS/JS (with tsconfig.json / jsconfig.json `paths` and `baseUrl`),
+ * Python imports and Rust `mod` declarations. Packages and files outside `basePath` are not
+ * followed. Ignore rules are not applied here.
+ */
+export async function resolveDependencies(
+    entryFiles: string[],
+    basePath: string,
+    maxDepth: number,
+    fileSystem: FileSystem = nodeFileSystem
+): Promise<DependencyGraph> {
+    const context: ResolverContext = { basePath, fileSystem, isFileCache: new Map(), mappingCache: new Map() };
+    const files = [...new Set(entryFiles)];
+    const seen = new Set(files);
+    const edges: DependencyEdge[] = [];
+    let frontier = files.slice();
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const filePath of frontier) {
+            const dependencies = [...new Set(await findDependencies(context, filePath))]
+                .filter(dependency => dependency !== filePath && isInside(basePath, dependency));
+            for (const dependency of dependencies) {
+                edges.push({ from: filePath, to: dependency });
+                if (!seen.has(dependency)) {
+                    seen.add(dependency);
+                    files.push(dependency);
+                    next.push(dependency);
+                }
+            }
+        }
+        frontier = next;
+    }
+    return { files, edges };
+}
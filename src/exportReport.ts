@@ -0,0 +1,56 @@
+// src/exportReport.ts
+import { ExportReport, ReportEntry } from './types';
+import { formatBytes } from './utils';
+
+function describeEntry(entry: ReportEntry): string {
+    if (entry.rule) {
+        const rule = entry.rule.pattern ? `${entry.rule.source} ${entry.rule.pattern}` : entry.rule.source;
+        return `${entry.reason ?? 'skipped'}: ${rule}`;
+    }
+    return entry.reason ?? '';
+}
+
+/**
+ * Renders a preview report as a plain-text table, one line per path, followed by the totals.
+ */
+export function renderExportReport(report: ExportReport): string {
+    const rows = report.entries.map(entry => [
+        entry.status,
+        entry.size === null ? '-' : formatBytes(entry.size),
+        entry.tokens === null ? '-' : entry.tokens.toLocaleString(),
+        entry.path,
+        describeEntry(entry),
+    ]);
+    const header = ['STATUS', 'SIZE', 'TOKENS', 'PATH', 'DETAILS'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const rightAligned = new Set([1, 2]);
+    const formatRow = (row: string[]) => row
+        .map((cell, column) => column === row.length - 1 ? cell : rightAligned.has(column) ? cell.padStart(widths[column]) : cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd();
+
+    const { totals, budget } = report;
+    const lines = [
+        `Sheafy export preview of ${report.basePath}${report.profile ? ` (profile '${report.profile}')` : ''}`,
+        '',
+        formatRow(header),
+        ...rows.map(formatRow),
+        '',
+        `Included: ${totals.includedFiles} file(s), ${formatBytes(totals.includedSize)}`,
+        `Skipped: ${totals.skippedFiles} file(s), ${totals.skippedDirectories} director${totals.skippedDirectories === 1 ? 'y' : 'ies'}`,
+        `Bundle: ~${totals.bundleTokens.toLocaleString()} tokens, ${formatBytes(totals.bundleBytes)}${totals.parts > 1 ? `, split into ${totals.parts} parts` : ''}`,
+    ];
+    if (budget.cutFiles.length > 0) {
+        const limits = [
+            budget.maxTokens !== null ? `${budget.maxTokens.toLocaleString()} tokens` : null,
+            budget.maxBytes !== null ? formatBytes(budget.maxBytes) : null,
+        ].filter(limit => limit !== null).join(', ');
+        lines.push(`Budget: ${budget.cutFiles.length} file(s) cut to fit ${limits}`);
+    }
+    if (report.blocked) {
+        lines.push(`Secrets: found ${report.secrets}; the export would be blocked (secret_mode is "block")`);
+    } else if (report.secrets > 0) {
+        lines.push(`Secrets: ${report.secrets} would be redacted`);
+    }
+    return lines.join('\n') + '\n';
+}
@@ -1,24 +1,56 @@
 // src/extension.ts
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { promises as fsPromises } from 'fs';
-import { loadSheafyConfig, SHEAFY_TOML_FILENAME, MergedSheafyConfig } from './sheafyConfig'; // Assuming path is correct
-import { exportContent, ExportResultDetails } from './fileProcessor'; // Assuming path is correct
+import { loadSheafyConfig, listSheafyProfiles, watchSheafyConfigFiles } from './sheafyConfig'; // Assuming path is correct
+import { SHEAFY_TOML_FILENAME, MergedSheafyConfig } from './config';
+import { copyNextPart, exportContent, exportRoots, ExportOutcome } from './fileProcessor'; // Assuming path is correct
+import { discoverFiles, ExportCancelledError, ExportFileInput, ExportOptions, ExportRoot, previewExport } from './bundler';
+import { getGitChanges, GitChangeOptions, GitDiffMode } from './gitChanges';
+import { FileSelectionProvider, FILE_SELECTION_VIEW_ID } from './fileSelectionView';
+import { ExportReport, SecretFinding } from './types';
+import { renderExportReport } from './exportReport';
+import { BundleApplier } from './applyBundle';
+import { BundleWatcher } from './watchMode';
+import { resolveDependencies } from './dependencies';
+import { createPathFilter } from './ignoreRules';
+import { pathToUri, uriToPath } from './workspaceFileSystem';
+import { SHEAFY_TOML_SELECTOR, SheafyTomlCompletionProvider, SheafyTomlDiagnostics, SheafyTomlHoverProvider } from './sheafyTomlProviders';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Sheafy extension is now active!');
 
-    const handleExportResults = (results: ExportResultDetails[], operationDisplayName: string) => {
-        // This function remains the same as before
+    // Lists secret findings; picking one opens the file at that line.
+    const showSecretFindings = async (findings: SecretFinding[]) => {
+        const picked = await vscode.window.showQuickPick(findings.map(finding => ({
+            label: `${finding.relPath}:${finding.line}`,
+            description: finding.inDiff ? `${finding.kind} (in diff)` : finding.kind,
+            finding,
+        })), { placeHolder: `${findings.length} secret(s) found`, matchOnDescription: true });
+        if (picked && !picked.finding.inDiff) {
+            const position = new vscode.Position(picked.finding.line - 1, 0);
+            await vscode.window.showTextDocument(pathToUri(picked.finding.filePath), { selection: new vscode.Range(position, position) });
+        }
+    };
+
+    const handleExportResults = (outcome: ExportOutcome, operationDisplayName: string) => {
+        const { results, budget, secrets } = outcome;
+        if (outcome.blocked) {
+            const fileCount = new Set(secrets.map(finding => finding.filePath)).size;
+            vscode.window.showErrorMessage(
+                `Sheafy: ${operationDisplayName} blocked: found ${secrets.length} secret(s) in ${fileCount} file(s). Nothing was exported.`,
+                'Show Findings'
+            ).then(choice => choice && showSecretFindings(secrets));
+            return;
+        }
         let successMessages: string[] = [];
         let errorMessages: string[] = [];
 
         results.forEach(result => {
             if (result.success) {
                 switch (result.type) {
-                    case 'clipboard': successMessages.push("Copied to clipboard."); break;
+                    case 'clipboard': successMessages.push(result.parts ? `Copied part 1 of ${result.parts} to clipboard.` : "Copied to clipboard."); break;
                     case 'tempTab': successMessages.push("Opened in a new tab."); break;
-                    case 'file': successMessages.push(`Written to file: ${result.filePath}`); break;
+                    case 'file': successMessages.push(result.parts ? `Written to ${result.parts} files: ${result.filePath} and the following parts.` : `Written to file: ${result.filePath}`); break;
                 }
             } else {
                 errorMessages.push(`Failed to export to ${result.type}: ${result.message}`);
@@ -26,7 +58,25 @@ export function activate(context: vscode.ExtensionContext) {
         });
 
         if (successMessages.length > 0) {
-            vscode.window.showInformationMessage(`Sheafy: ${operationDisplayName} successful! ${successMessages.join(' ')}`);
+            successMessages.push(`(~${budget.totalTokens.toLocaleString()} tokens, ${outcome.files.length} files)`);
+        }
+        if (secrets.length > 0) {
+            vscode.window.showWarningMessage(`Sheafy: Redacted ${secrets.length} secret(s) from the bundle.`, 'Show Findings')
+                .then(choice => choice && showSecretFindings(secrets));
+        }
+        if (budget.cutFiles.length > 0) {
+            const limits = [
+                budget.maxTokens !== null ? `${budget.maxTokens.toLocaleString()} tokens` : null,
+                budget.maxBytes !== null ? `${budget.maxBytes.toLocaleString()} bytes` : null,
+            ].filter(limit => limit).join(' / ');
+            const listed = budget.cutFiles.slice(0, 5).map(cut => `${cut.relPath} (${cut.action})`).join(', ');
+            const more = budget.cutFiles.length > 5 ? ` and ${budget.cutFiles.length - 5} more` : '';
+            vscode.window.showWarningMessage(`Sheafy: Bundle exceeded the budget of ${limits}. Cut ${budget.cutFiles.length} file(s): ${listed}${more}.`);
+        }
+        if (successMessages.length > 0) {
+            const splitClipboard = results.some(result => result.type === 'clipboard' && result.success && result.parts);
+            vscode.window.showInformationMessage(`Sheafy: ${operationDisplayName} successful! ${successMessages.join(' ')}`, ...(splitClipboard ? ['Copy Next Part'] : []))
+                .then(choice => choice && vscode.commands.executeCommand('sheafy.copyNextPart'));
         }
         if (errorMessages.length > 0) {
             vscode.window.showErrorMessage(`Sheafy: ${operationDisplayName} encountered errors. ${errorMessages.join(' ')}`);
@@ -65,11 +115,11 @@ export function activate(context: vscode.ExtensionContext) {
                     };
                     
                     // exportContent will handle increments from 10 to 90
-                    const results = await exportContent(folderUri.fsPath, specificConfig, progress, token);
+                    const outcome = await exportContent(uriToPath(folderUri), specificConfig, progress, token);
                     if (token.isCancellationRequested) throw new vscode.CancellationError();
 
                     progress.report({ increment: 100, message: "Finalizing..." }); // Complete to 100
-                    handleExportResults(results, `Folder export to clipboard`);
+                    handleExportResults(outcome, `Folder export to clipboard`);
 
                 } catch (error: any) {
                     if (error instanceof vscode.CancellationError) {
@@ -83,64 +133,539 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    const getProjectRootUri = (): vscode.Uri | undefined => {
+        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
+            return vscode.workspace.workspaceFolders[0].uri;
+        } else if (vscode.window.activeTextEditor) {
+            const activeDocUri = vscode.window.activeTextEditor.document.uri;
+            const wsFolder = vscode.workspace.getWorkspaceFolder(activeDocUri);
+            if (wsFolder) {
+                return wsFolder.uri;
+            } else if (activeDocUri.scheme !== 'untitled') {
+                return vscode.Uri.joinPath(activeDocUri, '..'); // The document's folder
+            }
+        }
+        return undefined;
+    };
+
+    // Folders a project export runs on: the only folder, or the user's pick in a multi-root workspace.
+    // Resolves to undefined if the picker was dismissed.
+    const pickProjectRoots = async (): Promise<vscode.Uri[] | undefined> => {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length <= 1) {
+            const projectRootUri = getProjectRootUri();
+            return projectRootUri ? [projectRootUri] : [];
+        }
+        const items: Array<vscode.QuickPickItem & { uris: vscode.Uri[] }> = [
+            { label: '$(root-folder-opened) All workspace folders', description: 'One bundle, paths prefixed with the folder name', uris: folders.map(folder => folder.uri) },
+            ...folders.map(folder => ({ label: folder.name, description: uriToPath(folder.uri), uris: [folder.uri] })),
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the workspace folder to export' });
+        return picked?.uris;
+    };
+
+    // A single workspace folder: the only one, or the user's pick. Resolves to null if no folder
+    // is open and to undefined if the picker was dismissed.
+    const pickWorkspaceFolder = async (placeHolder: string): Promise<vscode.Uri | null | undefined> => {
+        if ((vscode.workspace.workspaceFolders ?? []).length > 1) {
+            return (await vscode.window.showWorkspaceFolderPick({ placeHolder }))?.uri;
+        }
+        const rootUri = getProjectRootUri();
+        return rootUri && vscode.workspace.getWorkspaceFolder(rootUri) ? rootUri : null;
+    };
+
+    // Resources outside every workspace folder are exported with the first folder's configuration.
+    const getRootUriFor = (uri: vscode.Uri): vscode.Uri | undefined =>
+        vscode.workspace.getWorkspaceFolder(uri)?.uri ?? getProjectRootUri();
+
+    // Splits resources by workspace folder so each folder is exported with its own sheafy.toml.
+    const groupByRoot = <T>(items: T[], uriOf: (item: T) => vscode.Uri): Map<string, { rootUri: vscode.Uri; items: T[] }> => {
+        const groups = new Map<string, { rootUri: vscode.Uri; items: T[] }>();
+        for (const item of items) {
+            const rootUri = getRootUriFor(uriOf(item));
+            if (!rootUri) {
+                continue;
+            }
+            const group = groups.get(rootUri.toString()) ?? { rootUri, items: [] };
+            group.items.push(item);
+            groups.set(rootUri.toString(), group);
+        }
+        return groups;
+    };
+
+    interface ProjectExportRequest {
+        title: string;
+        operationName: string;
+        // Folders to export; without it the user picks one (or all) in a multi-root workspace.
+        rootUris?: vscode.Uri[];
+        // Selects the files to export from a folder; without it the whole folder is walked.
+        prepare?: (config: MergedSheafyConfig, rootUri: vscode.Uri) => Promise<ExportOptions>;
+    }
+
+    // profileName: undefined uses the sheafy.defaultProfile setting, null forces the plain [sheafy] table.
+    const runProjectExport = async (
+        profileName: string | null | undefined,
+        request: ProjectExportRequest = { title: 'Exporting project', operationName: 'Project export' }
+    ) => {
+        const rootUris = request.rootUris ?? await pickProjectRoots();
+        if (!rootUris) {
+            return; // Folder picker dismissed
+        }
+        if (rootUris.length === 0) {
+            vscode.window.showErrorMessage('Sheafy: No project folder open or file active to determine export root.');
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: profileName ? `Sheafy: ${request.title} (profile '${profileName}')...` : `Sheafy: ${request.title}...`,
+            cancellable: true
+        }, async (progress, token) => {
+            try {
+                progress.report({ increment: 0, message: "Loading configuration..." });
+                const configs: MergedSheafyConfig[] = [];
+                for (const rootUri of rootUris) {
+                    configs.push(await loadSheafyConfig(rootUri, profileName));
+                }
+                const config = configs[0]; // Output settings (format, destinations, budget) come from the first folder
+                if (token.isCancellationRequested) throw new vscode.CancellationError();
+                progress.report({ increment: 10 }); // Config loaded
+
+                if (config.exportDestinations.length === 0) {
+                    vscode.window.showWarningMessage('Sheafy: No export destinations configured.');
+                    return; // Exits progress scope
+                }
+
+                const roots: ExportRoot[] = [];
+                for (const [i, rootConfig] of configs.entries()) {
+                    const options = request.prepare ? await request.prepare(rootConfig, rootUris[i]) : {};
+                    if (token.isCancellationRequested) throw new vscode.CancellationError();
+                    if (!options.files || options.files.length > 0) {
+                        roots.push({ config: rootConfig, options });
+                    }
+                }
+                if (roots.length === 0) {
+                    vscode.window.showInformationMessage(`Sheafy: ${request.operationName}: no files to export.`);
+                    return;
+                }
+
+                // exportContent will handle increments from 10 to 90 (or more if config is fast)
+                const outcome = rootUris.length > 1
+                    ? await exportRoots(roots, vscode.workspace.name ?? 'workspace', progress, token)
+                    : await exportContent(config.basePath, config, progress, token, roots[0].options);
+                if (token.isCancellationRequested) throw new vscode.CancellationError();
+
+                progress.report({ increment: 100, message: "Finalizing..." }); // Complete to 100
+                handleExportResults(outcome, config.profile ? `${request.operationName} (profile '${config.profile}')` : request.operationName);
+
+            } catch (error: any) {
+                 if (error instanceof vscode.CancellationError) {
+                    vscode.window.showInformationMessage(`Sheafy: ${request.operationName} cancelled.`);
+                } else {
+                    vscode.window.showErrorMessage(`Sheafy: Error during ${request.operationName.toLowerCase()}: ${error.message}`);
+                    console.error(`Sheafy ${request.operationName} error:`, error);
+                }
+            }
+        });
+    };
+
     const exportProjectCommand = vscode.commands.registerCommand(
         'sheafy.exportProjectToTextFile',
+        async () => runProjectExport(undefined)
+    );
+
+    // Accepts a profile name (or { profile: name }) as argument so profiles can be bound to keybindings.
+    const exportWithProfileCommand = vscode.commands.registerCommand(
+        'sheafy.exportWithProfile',
+        async (arg?: string | { profile?: string }) => {
+            const requestedProfile = typeof arg === 'string' ? arg : arg?.profile;
+            if (requestedProfile) {
+                await runProjectExport(requestedProfile);
+                return;
+            }
+
+            const rootUris = await pickProjectRoots();
+            if (!rootUris || rootUris.length === 0) {
+                if (rootUris) {
+                    vscode.window.showErrorMessage('Sheafy: No project folder open or file active to determine export root.');
+                }
+                return;
+            }
+            const profiles: string[] = [];
+            try {
+                for (const rootUri of rootUris) {
+                    for (const name of await listSheafyProfiles(rootUri)) {
+                        if (!profiles.includes(name)) {
+                            profiles.push(name);
+                        }
+                    }
+                }
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Sheafy: ${error.message}`);
+                return;
+            }
+            if (profiles.length === 0) {
+                vscode.window.showWarningMessage(`Sheafy: No [profiles.<name>] tables found in ${SHEAFY_TOML_FILENAME}.`);
+                return;
+            }
+
+            const defaultProfile = vscode.workspace.getConfiguration('sheafy').get<string>('defaultProfile', '');
+            const items: Array<vscode.QuickPickItem & { profile: string | null }> = [
+                { label: '[sheafy]', description: 'No profile', profile: null },
+                ...profiles.map(name => ({
+                    label: name,
+                    description: name === defaultProfile ? 'Default' : undefined,
+                    profile: name,
+                })),
+            ];
+            const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a Sheafy export profile' });
+            if (!picked) {
+                return;
+            }
+            await runProjectExport(picked.profile, { title: 'Exporting project', operationName: 'Project export', rootUris });
+        }
+    );
+
+    interface GitExportArgs {
+        diff?: GitDiffMode; // Overrides git_diff from sheafy.toml
+        profile?: string;
+        ref?: string;
+        mergeBase?: boolean;
+    }
+
+    const runGitExport = (changeOptions: GitChangeOptions, args: GitExportArgs | undefined, title: string, operationName: string) =>
+        runProjectExport(args?.profile, {
+            title,
+            operationName,
+            prepare: async config => {
+                if (!config.fileSystem.isLocal) {
+                    throw new Error(`Git exports need a folder on this machine; ${config.root_name} is not one.`);
+                }
+                const diffMode = args?.diff ?? config.git_diff;
+                const changes = await getGitChanges(config.basePath, { ...changeOptions, includeDiffs: diffMode !== 'none' });
+                return { files: changes.map(({ filePath, diff }) => ({ filePath, diff })), diffMode };
+            },
+        });
+
+    const exportChangedFilesCommand = vscode.commands.registerCommand(
+        'sheafy.exportChangedFiles',
+        async (args?: GitExportArgs) => runGitExport({ mode: 'working' }, args, 'Exporting changed files', 'Changed files export')
+    );
+
+    const exportStagedFilesCommand = vscode.commands.registerCommand(
+        'sheafy.exportStagedFiles',
+        async (args?: GitExportArgs) => runGitExport({ mode: 'staged' }, args, 'Exporting staged files', 'Staged files export')
+    );
+
+    const exportChangesSinceRefCommand = vscode.commands.registerCommand(
+        'sheafy.exportChangesSinceRef',
+        async (args?: GitExportArgs) => {
+            let ref = args?.ref;
+            let mergeBase = args?.mergeBase;
+            if (!ref) {
+                ref = await vscode.window.showInputBox({
+                    prompt: 'Export files changed since this git ref (branch, tag or commit)',
+                    placeHolder: 'main',
+                    ignoreFocusOut: true,
+                });
+                if (!ref) {
+                    return;
+                }
+            }
+            if (mergeBase === undefined) {
+                const picked = await vscode.window.showQuickPick([
+                    { label: `Changes since the merge-base with ${ref}`, description: 'Like a pull request diff', mergeBase: true },
+                    { label: `Changes compared to ${ref}`, description: 'Includes changes made on the other side', mergeBase: false },
+                ], { placeHolder: 'Compare against' });
+                if (!picked) {
+                    return;
+                }
+                mergeBase = picked.mergeBase;
+            }
+            await runGitExport({ mode: 'since', ref, mergeBase }, args, `Exporting changes since ${ref}`, `Export of changes since ${ref}`);
+        }
+    );
+
+    const exportSelectedResourcesCommand = vscode.commands.registerCommand(
+        'sheafy.exportSelectedResources',
+        async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            // Explorer context menus pass the clicked item and the whole multi-selection.
+            const selected = uris && uris.length > 0 ? uris : uri ? [uri] : [];
+            if (selected.length === 0) {
+                vscode.window.showErrorMessage('Sheafy: No files or folders selected for export.');
+                return;
+            }
+            const groups = groupByRoot(selected, resource => resource);
+            await runProjectExport(undefined, {
+                title: 'Exporting selected items',
+                operationName: 'Selected items export',
+                rootUris: [...groups.values()].map(group => group.rootUri),
+                prepare: async (config, rootUri) => {
+                    const filePaths = new Set<string>();
+                    for (const resource of groups.get(rootUri.toString())?.items ?? []) {
+                        const resourcePath = uriToPath(resource);
+                        const stat = await config.fileSystem.stat(resourcePath);
+                        if (stat.isDirectory) {
+                            (await discoverFiles(resourcePath, config)).forEach(filePath => filePaths.add(filePath));
+                        } else {
+                            filePaths.add(resourcePath); // Picked by hand, so ignore rules don't apply
+                        }
+                    }
+                    return { files: [...filePaths].sort().map(filePath => ({ filePath })), applyFilters: false };
+                },
+            });
+        }
+    );
+
+    // Untitled documents have no path; they are shown under their title, relative to the project root.
+    const getDocumentFilePath = (document: vscode.TextDocument, config: MergedSheafyConfig) =>
+        document.isUntitled ? path.join(config.basePath, document.fileName) : uriToPath(document.uri);
+
+    const exportOpenEditorsCommand = vscode.commands.registerCommand(
+        'sheafy.exportOpenEditors',
         async () => {
-            let projectRootUri: vscode.Uri | undefined;
-            if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                projectRootUri = vscode.workspace.workspaceFolders[0].uri;
-            } else if (vscode.window.activeTextEditor) {
-                // ... (logic to determine projectRootUri from active editor, same as before)
-                const activeDocUri = vscode.window.activeTextEditor.document.uri;
-                const wsFolder = vscode.workspace.getWorkspaceFolder(activeDocUri);
-                if (wsFolder) {
-                    projectRootUri = wsFolder.uri;
-                } else if (activeDocUri.scheme === 'file') {
-                    projectRootUri = activeDocUri; 
+            const uris = new Map<string, vscode.Uri>();
+            for (const tab of vscode.window.tabGroups.all.flatMap(group => group.tabs)) {
+                if (tab.input instanceof vscode.TabInputText) {
+                    uris.set(tab.input.uri.toString(), tab.input.uri);
                 }
             }
+            if (uris.size === 0) {
+                vscode.window.showInformationMessage('Sheafy: No open editors to export.');
+                return;
+            }
+            const groups = groupByRoot([...uris.entries()], ([, uri]) => uri);
+            await runProjectExport(undefined, {
+                title: 'Exporting open editors',
+                operationName: 'Open editors export',
+                rootUris: [...groups.values()].map(group => group.rootUri),
+                prepare: async (config, rootUri) => {
+                    const files: ExportFileInput[] = [];
+                    for (const [key, uri] of groups.get(rootUri.toString())?.items ?? []) {
+                        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+                        if (document) {
+                            // Unsaved changes are exported as they are in the editor.
+                            const content = document.isDirty || document.isUntitled ? document.getText() : undefined;
+                            files.push({ filePath: getDocumentFilePath(document, config), content, lang: document.languageId });
+                        } else if (uri.scheme === rootUri.scheme) {
+                            files.push({ filePath: uriToPath(uri) }); // Tab not restored yet; read from disk
+                        }
+                    }
+                    return { files, applyFilters: false };
+                },
+            });
+        }
+    );
 
-            if (!projectRootUri) {
-                vscode.window.showErrorMessage('Sheafy: No project folder open or file active to determine export root.');
+    const exportSelectionCommand = vscode.commands.registerCommand(
+        'sheafy.exportSelection',
+        async () => {
+            const editor = vscode.window.activeTextEditor;
+            const selections = editor?.selections.filter(selection => !selection.isEmpty) ?? [];
+            if (!editor || selections.length === 0) {
+                vscode.window.showInformationMessage('Sheafy: Select the lines to export first.');
                 return;
             }
+            const document = editor.document;
+            const rootUri = getRootUriFor(document.uri);
+            await runProjectExport(undefined, {
+                title: 'Exporting selection',
+                operationName: 'Selection export',
+                rootUris: rootUri ? [rootUri] : [],
+                prepare: async config => ({
+                    files: [...selections].sort((a, b) => a.start.line - b.start.line).map(selection => {
+                        // A selection ending at column 0 doesn't include that line.
+                        const endLine = selection.end.character === 0 ? selection.end.line - 1 : selection.end.line;
+                        const range = new vscode.Range(selection.start.line, 0, endLine, document.lineAt(endLine).text.length);
+                        return {
+                            filePath: getDocumentFilePath(document, config),
+                            content: document.getText(range),
+                            lang: document.languageId,
+                            lines: { start: selection.start.line + 1, end: endLine + 1 },
+                        };
+                    }),
+                    applyFilters: false,
+                }),
+            });
+        }
+    );
 
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `Sheafy: Exporting project...`,
-                cancellable: true
-            }, async (progress, token) => {
+    // Started from the explorer (clicked file) or the command palette (active editor).
+    const exportFileWithDependenciesCommand = vscode.commands.registerCommand(
+        'sheafy.exportFileWithDependencies',
+        async (uri?: vscode.Uri) => {
+            const entryUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+            if (!entryUri || entryUri.scheme === 'untitled') {
+                vscode.window.showErrorMessage('Sheafy: Open or select a file to export with its dependencies.');
+                return;
+            }
+            const rootUri = getRootUriFor(entryUri);
+            await runProjectExport(undefined, {
+                title: 'Exporting file with dependencies',
+                operationName: 'Dependency export',
+                rootUris: rootUri ? [rootUri] : [],
+                prepare: async config => {
+                    const entryPath = uriToPath(entryUri);
+                    const graph = await resolveDependencies([entryPath], config.basePath, config.dependency_depth, config.fileSystem);
+                    const passesFilters = await createPathFilter(config);
+                    const files: ExportFileInput[] = [{ filePath: entryPath }]; // Picked by hand, so ignore rules don't apply
+                    for (const filePath of graph.files.slice(1)) {
+                        if (await passesFilters(filePath)) {
+                            files.push({ filePath });
+                        }
+                    }
+                    return { files, applyFilters: false, dependencies: graph.edges };
+                },
+            });
+        }
+    );
+
+    const fileSelection = new FileSelectionProvider(context.workspaceState);
+    const fileSelectionView = vscode.window.createTreeView(FILE_SELECTION_VIEW_ID, { treeDataProvider: fileSelection });
+    fileSelection.attach(fileSelectionView);
+
+    const fileSelectionCommands = [
+        vscode.commands.registerCommand('sheafy.fileSelection.refresh', () => fileSelection.refresh()),
+        vscode.commands.registerCommand('sheafy.fileSelection.checkAll', () => fileSelection.setAllChecked(true)),
+        vscode.commands.registerCommand('sheafy.fileSelection.uncheckAll', () => fileSelection.setAllChecked(false)),
+        vscode.commands.registerCommand('sheafy.fileSelection.exportChecked', async () => {
+            if (!fileSelection.root) {
+                await fileSelection.refresh();
+            }
+            await runProjectExport(undefined, {
+                title: 'Exporting checked files',
+                operationName: 'Checked files export',
+                rootUris: fileSelection.root ? [fileSelection.root] : [],
+                prepare: async () => ({ files: fileSelection.getCheckedFiles().map(filePath => ({ filePath })) }),
+            });
+        }),
+    ];
+
+    const bundleApplier = new BundleApplier();
+
+    // Accepts { source: 'clipboard' | 'file' } to skip the source picker.
+    const applyBundleCommand = vscode.commands.registerCommand(
+        'sheafy.applyBundle',
+        async (args?: { source?: 'clipboard' | 'file' }) => {
+            let source = args?.source;
+            if (!source) {
+                const picked = await vscode.window.showQuickPick([
+                    { label: '$(clippy) From clipboard', source: 'clipboard' as const },
+                    { label: '$(file) From file...', source: 'file' as const },
+                ], { placeHolder: 'Apply a Sheafy bundle' });
+                if (!picked) {
+                    return;
+                }
+                source = picked.source;
+            }
+
+            let text: string;
+            if (source === 'clipboard') {
+                text = await vscode.env.clipboard.readText();
+            } else {
+                const picked = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    openLabel: 'Apply Bundle',
+                    filters: { 'Bundles': ['md', 'xml', 'json', 'txt'], 'All Files': ['*'] },
+                });
+                if (!picked || picked.length === 0) {
+                    return;
+                }
                 try {
-                    progress.report({ increment: 0, message: "Loading configuration..." });
-                    const config = await loadSheafyConfig(projectRootUri);
-                    if (token.isCancellationRequested) throw new vscode.CancellationError();
-                    progress.report({ increment: 10 }); // Config loaded
+                    text = Buffer.from(await vscode.workspace.fs.readFile(picked[0])).toString('utf-8');
+                } catch (error: any) {
+                    vscode.window.showErrorMessage(`Sheafy: Could not read ${uriToPath(picked[0])}: ${error.message}`);
+                    return;
+                }
+            }
+            if (!text.trim()) {
+                vscode.window.showWarningMessage(`Sheafy: The ${source === 'clipboard' ? 'clipboard' : 'file'} is empty.`);
+                return;
+            }
+            await bundleApplier.apply(text);
+        }
+    );
 
-                    if (config.exportDestinations.length === 0) {
-                        vscode.window.showWarningMessage('Sheafy: No export destinations configured.');
-                        return; // Exits progress scope
-                    }
-                    
-                    // exportContent will handle increments from 10 to 90 (or more if config is fast)
-                    const results = await exportContent(config.basePath, config, progress, token);
-                    if (token.isCancellationRequested) throw new vscode.CancellationError();
+    const bundleWatcher = new BundleWatcher();
 
-                    progress.report({ increment: 100, message: "Finalizing..." }); // Complete to 100
-                    handleExportResults(results, "Project export");
+    const toggleWatchModeCommand = vscode.commands.registerCommand(
+        'sheafy.toggleWatchMode',
+        async () => {
+            if (bundleWatcher.isWatching) {
+                bundleWatcher.stop();
+                vscode.window.showInformationMessage('Sheafy: Watch mode stopped.');
+                return;
+            }
+            const rootUri = await pickWorkspaceFolder('Select the folder whose bundle to keep up to date');
+            if (rootUri === null) {
+                vscode.window.showErrorMessage('Sheafy: Open a folder to use watch mode.');
+            } else if (rootUri) {
+                await bundleWatcher.start(rootUri);
+            }
+        }
+    );
 
+    // Steps through the parts of a bundle that was split at split_at and exported to the clipboard.
+    const copyNextPartCommand = vscode.commands.registerCommand(
+        'sheafy.copyNextPart',
+        async () => {
+            const copied = await copyNextPart();
+            if (!copied) {
+                vscode.window.showInformationMessage('Sheafy: No more parts to copy. Export a bundle larger than split_at to the clipboard first.');
+                return;
+            }
+            if (copied.part < copied.parts) {
+                vscode.window.showInformationMessage(`Sheafy: Copied part ${copied.part} of ${copied.parts} to clipboard.`, 'Copy Next Part')
+                    .then(choice => choice && vscode.commands.executeCommand('sheafy.copyNextPart'));
+            } else {
+                vscode.window.showInformationMessage(`Sheafy: Copied part ${copied.part} of ${copied.parts} to clipboard. That was the last part.`);
+            }
+        }
+    );
+
+    const previewChannel = vscode.window.createOutputChannel('Sheafy Export Preview');
+
+    // Writes the report to the output channel and returns it as JSON, e.g. for tasks and tests.
+    // Accepts { profile: name } like sheafy.exportWithProfile, and { folder: uri or path } to
+    // preview that folder; only without a folder does it ask which workspace folder to preview.
+    const previewExportCommand = vscode.commands.registerCommand(
+        'sheafy.previewExport',
+        async (args?: vscode.Uri | { profile?: string; folder?: vscode.Uri | string }): Promise<ExportReport | undefined> => {
+            const options = args instanceof vscode.Uri ? { folder: args } : args ?? {}; // From the explorer, the clicked folder
+            const folderUri = typeof options.folder === 'string' ? pathToUri(options.folder) : options.folder;
+            const rootUri = folderUri ? getRootUriFor(folderUri) ?? null : await pickWorkspaceFolder('Select the folder to preview the export of');
+            if (rootUri === null) {
+                vscode.window.showErrorMessage('Sheafy: No project folder open or file active to determine export root.');
+                return undefined;
+            }
+            if (!rootUri) {
+                return undefined;
+            }
+            return vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: options.profile ? `Sheafy: Previewing export (profile '${options.profile}')...` : 'Sheafy: Previewing export...',
+                cancellable: true
+            }, async (progress, token) => {
+                try {
+                    const config = await loadSheafyConfig(rootUri, options.profile);
+                    const report = await previewExport(folderUri ? uriToPath(folderUri) : config.basePath, config, progress, token);
+                    previewChannel.clear();
+                    previewChannel.append(renderExportReport(report));
+                    previewChannel.show(true);
+                    return report;
                 } catch (error: any) {
-                     if (error instanceof vscode.CancellationError) {
-                        vscode.window.showInformationMessage("Sheafy: Project export cancelled.");
+                    if (error instanceof ExportCancelledError) {
+                        vscode.window.showInformationMessage('Sheafy: Export preview cancelled.');
                     } else {
-                        vscode.window.showErrorMessage(`Sheafy: Error exporting project: ${error.message}`);
-                        console.error("Sheafy exportProjectCommand error:", error);
+                        vscode.window.showErrorMessage(`Sheafy: Error during export preview: ${error.message}`);
+                        console.error('Sheafy export preview error:', error);
                     }
+                    return undefined;
                 }
             });
         }
     );
 
-    // initConfigCommand remains the same as before
     const initConfigCommand = vscode.commands.registerCommand(
         'sheafy.initializeSheafyConfig',
         async () => {
@@ -149,11 +674,17 @@ export function activate(context: vscode.ExtensionContext) {
                 vscode.window.showErrorMessage('Sheafy: No workspace folder open to initialize configuration.');
                 return;
             }
-            const rootPath = workspaceFolders[0].uri.fsPath;
-            const tomlPath = path.join(rootPath, SHEAFY_TOML_FILENAME);
+            const folder = workspaceFolders.length === 1
+                ? workspaceFolders[0]
+                : await vscode.window.showWorkspaceFolderPick({ placeHolder: `Select the folder to create ${SHEAFY_TOML_FILENAME} in` });
+            if (!folder) {
+                return;
+            }
+            const tomlUri = vscode.Uri.joinPath(folder.uri, SHEAFY_TOML_FILENAME);
+            const tomlPath = uriToPath(tomlUri);
 
             try {
-                await fsPromises.access(tomlPath);
+                await vscode.workspace.fs.stat(tomlUri);
                 vscode.window.showInformationMessage(`Sheafy: ${SHEAFY_TOML_FILENAME} already exists at ${tomlPath}.`);
             } catch {
                 const defaultConfigContent = `[sheafy]
@@ -176,11 +707,21 @@ target/
 """
 prologue = ""
 epilogue = ""
+# max_tokens = 100000
+# budget_action = "drop"
+# split_at = "50000 tokens"
+# dependency_depth = 3
+# secret_mode = "redact"
+
+# Named profiles inherit everything from [sheafy] and can override any key.
+# [profiles.docs]
+# include_patterns = "*.md"
+# bundle_name = "docs_bundle.md"
 `;
                 try {
-                    await fsPromises.writeFile(tomlPath, defaultConfigContent);
+                    await vscode.workspace.fs.writeFile(tomlUri, Buffer.from(defaultConfigContent, 'utf-8'));
                     vscode.window.showInformationMessage(`Sheafy: ${SHEAFY_TOML_FILENAME} created successfully at ${tomlPath}.`);
-                    const document = await vscode.workspace.openTextDocument(tomlPath);
+                    const document = await vscode.workspace.openTextDocument(tomlUri);
                     await vscode.window.showTextDocument(document);
                 } catch (error: any) {
                     vscode.window.showErrorMessage(`Sheafy: Failed to create ${SHEAFY_TOML_FILENAME}: ${error.message}`);
@@ -193,7 +734,29 @@ epilogue = ""
     context.subscriptions.push(
         exportFolderToClipboardCommand,
         exportProjectCommand,
-        initConfigCommand
+        exportWithProfileCommand,
+        exportChangedFilesCommand,
+        exportStagedFilesCommand,
+        exportChangesSinceRefCommand,
+        exportSelectedResourcesCommand,
+        exportOpenEditorsCommand,
+        exportSelectionCommand,
+        exportFileWithDependenciesCommand,
+        fileSelection,
+        fileSelectionView,
+        ...fileSelectionCommands,
+        bundleApplier,
+        applyBundleCommand,
+        bundleWatcher,
+        toggleWatchModeCommand,
+        copyNextPartCommand,
+        previewChannel,
+        previewExportCommand,
+        initConfigCommand,
+        watchSheafyConfigFiles(),
+        new SheafyTomlDiagnostics(),
+        vscode.languages.registerCompletionItemProvider(SHEAFY_TOML_SELECTOR, new SheafyTomlCompletionProvider(), '[', '"', ' '),
+        vscode.languages.registerHoverProvider(SHEAFY_TOML_SELECTOR, new SheafyTomlHoverProvider())
     );
 }
 
@@ -0,0 +1,126 @@
+// src/fileReader.ts
+import { FileStat, FileSystem, nodeFileSystem } from './fileSystem';
+
+export type SkipReason = 'binary' | 'too large';
+
+export type FileReadResult =
+    | { kind: 'text'; content: string; encoding: string; size: number; mtimeMs: number }
+    | { kind: 'skipped'; reason: SkipReason; size: number; mtimeMs: number };
+
+// How much of the file is inspected when sniffing for binary content.
+const SNIFF_LENGTH = 8192;
+
+// Leading bytes of common binary formats that may not contain a NUL byte early on.
+// Executables, SQLite databases, audio containers etc. are caught by the NUL-byte check.
+const BINARY_SIGNATURES: number[][] = [
+    [0x89, 0x50, 0x4e, 0x47], // PNG
+    [0xff, 0xd8, 0xff], // JPEG
+    [0x47, 0x49, 0x46, 0x38], // GIF
+    [0x25, 0x50, 0x44, 0x46], // PDF
+    [0x50, 0x4b, 0x03, 0x04], // ZIP, JAR, DOCX, ...
+    [0x1f, 0x8b], // gzip
+    [0x42, 0x5a, 0x68], // bzip2
+    [0x37, 0x7a, 0xbc, 0xaf], // 7z
+    [0x7f, 0x45, 0x4c, 0x46], // ELF
+    [0xcf, 0xfa, 0xed, 0xfe], // Mach-O
+    [0x00, 0x61, 0x73, 0x6d], // WebAssembly
+    [0x77, 0x4f, 0x46, 0x46], // WOFF
+    [0x77, 0x4f, 0x46, 0x32], // WOFF2
+    [0x00, 0x01, 0x00, 0x00], // TrueType
+    [0x4f, 0x54, 0x54, 0x4f], // OpenType
+    [0x4f, 0x67, 0x67, 0x53], // Ogg
+];
+
+function startsWith(buffer: Buffer, signature: number[]): boolean {
+    return buffer.length >= signature.length && signature.every((byte, i) => buffer[i] === byte);
+}
+
+/**
+ * Guesses a BOM-less UTF-16 encoding: ASCII-heavy UTF-16 text has a NUL in every other byte.
+ */
+function detectBomlessUtf16(sample: Buffer): 'utf-16le' | 'utf-16be' | null {
+    if (sample.length < 4) {
+        return null;
+    }
+    let evenNuls = 0;
+    let oddNuls = 0;
+    const pairs = Math.floor(sample.length / 2);
+    for (let i = 0; i < pairs * 2; i += 2) {
+        if (sample[i] === 0) { evenNuls++; }
+        if (sample[i + 1] === 0) { oddNuls++; }
+    }
+    if (oddNuls / pairs > 0.7 && evenNuls / pairs < 0.1) {
+        return 'utf-16le';
+    }
+    if (evenNuls / pairs > 0.7 && oddNuls / pairs < 0.1) {
+        return 'utf-16be';
+    }
+    return null;
+}
+
+/**
+ * Determines the text encoding of `buffer`, or returns null if it looks binary.
+ */
+export function detectEncoding(buffer: Buffer): string | null {
+    if (startsWith(buffer, [0xef, 0xbb, 0xbf])) {
+        return 'utf-8-bom';
+    }
+    if (startsWith(buffer, [0xff, 0xfe])) {
+        return 'utf-16le';
+    }
+    if (startsWith(buffer, [0xfe, 0xff])) {
+        return 'utf-16be';
+    }
+    const sample = buffer.subarray(0, SNIFF_LENGTH);
+    if (BINARY_SIGNATURES.some(signature => startsWith(sample, signature))) {
+        return null;
+    }
+    if (sample.includes(0)) {
+        return detectBomlessUtf16(sample);
+    }
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+        return 'utf-8';
+    } catch {
+        return 'latin1';
+    }
+}
+
+export function decodeBuffer(buffer: Buffer, encoding: string): string {
+    switch (encoding) {
+        case 'utf-8-bom':
+            return buffer.subarray(3).toString('utf-8');
+        case 'utf-16le':
+            return new TextDecoder('utf-16le').decode(buffer); // Strips the BOM if present
+        case 'utf-16be':
+            return new TextDecoder('utf-16be').decode(buffer);
+        case 'latin1':
+            return buffer.toString('latin1');
+        default:
+            return buffer.toString('utf-8');
+    }
+}
+
+/**
+ * Reads a file for inclusion in a bundle. Files larger than `maxFileSize` are not read at all;
+ * binary files are detected by magic numbers and NUL bytes; text is decoded from UTF-8,
+ * UTF-8 with BOM, UTF-16 (with or without BOM) or, as a last resort, Latin-1. Pass `knownStat`
+ * if the file was stat'ed already.
+ */
+export async function readFileForExport(
+    filePath: string,
+    maxFileSize: number | null,
+    fileSystem: FileSystem = nodeFileSystem,
+    knownStat?: FileStat
+): Promise<FileReadResult> {
+    const stat = knownStat ?? await fileSystem.stat(filePath);
+    if (maxFileSize !== null && stat.size > maxFileSize) {
+        return { kind: 'skipped', reason: 'too large', size: stat.size, mtimeMs: stat.mtimeMs };
+    }
+    const buffer = await fileSystem.readFile(filePath);
+    const encoding = detectEncoding(buffer);
+    if (encoding === null) {
+        return { kind: 'skipped', reason: 'binary', size: stat.size, mtimeMs: stat.mtimeMs };
+    }
+    return { kind: 'text', content: decodeBuffer(buffer, encoding), encoding, size: stat.size, mtimeMs: stat.mtimeMs };
+}
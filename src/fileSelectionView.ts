@@ -0,0 +1,225 @@
+// src/fileSelectionView.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { loadSheafyConfig } from './sheafyConfig';
+import { MergedSheafyConfig } from './config';
+import { DEFAULT_CONCURRENCY, discoverFiles } from './bundler';
+import { readFileForExport } from './fileReader';
+import { createLimiter, estimateTokens, formatBytes, toPosixPath } from './utils';
+import { pathToUri } from './workspaceFileSystem';
+
+export const FILE_SELECTION_VIEW_ID = 'sheafy.fileSelection';
+
+// Unchecked paths are persisted (rather than checked ones) so files added later start out checked.
+const UNCHECKED_STATE_KEY = 'sheafy.fileSelection.unchecked';
+
+interface SelectionNode {
+    name: string;
+    relPath: string; // Forward slashes, relative to the root folder
+    filePath: string; // Absolute path
+    children?: SelectionNode[]; // Set for directories
+    bytes: number;
+    tokens: number;
+    note?: string; // e.g. "binary" for files that would be skipped
+}
+
+function sortNodes(nodes: SelectionNode[]): void {
+    nodes.sort((a, b) => {
+        if (!!a.children !== !!b.children) {
+            return a.children ? -1 : 1;
+        }
+        return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+    });
+    for (const node of nodes) {
+        if (node.children) {
+            sortNodes(node.children);
+        }
+    }
+}
+
+function collectFiles(node: SelectionNode, into: SelectionNode[] = []): SelectionNode[] {
+    if (node.children) {
+        node.children.forEach(child => collectFiles(child, into));
+    } else {
+        into.push(node);
+    }
+    return into;
+}
+
+// Size and token estimate of a file. Files over max_file_size are only stat'ed, not read.
+async function measureFile(filePath: string, config: MergedSheafyConfig): Promise<Pick<SelectionNode, 'bytes' | 'tokens' | 'note'>> {
+    try {
+        const readResult = await readFileForExport(filePath, config.max_file_size, config.fileSystem);
+        return readResult.kind === 'text'
+            ? { bytes: readResult.size, tokens: estimateTokens(readResult.content) }
+            : { bytes: readResult.size, tokens: 0, note: readResult.reason };
+    } catch {
+        return { bytes: 0, tokens: 0, note: 'unreadable' };
+    }
+}
+
+/**
+ * Tree of the files an export would include under the current filters, with checkboxes to
+ * hand-pick a subset for "Export checked".
+ */
+export class FileSelectionProvider implements vscode.TreeDataProvider<SelectionNode>, vscode.Disposable {
+    private roots: SelectionNode[] = [];
+    private files: SelectionNode[] = [];
+    private unchecked = new Set<string>();
+    private rootUri: vscode.Uri | undefined;
+    private treeView: vscode.TreeView<SelectionNode> | undefined;
+    private readonly changeEmitter = new vscode.EventEmitter<SelectionNode | undefined | void>();
+    private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly workspaceState: vscode.Memento) {}
+
+    attach(treeView: vscode.TreeView<SelectionNode>): void {
+        this.treeView = treeView;
+        this.disposables.push(
+            treeView.onDidChangeCheckboxState(event => this.onCheckboxChange(event)),
+            treeView.onDidChangeVisibility(event => {
+                if (event.visible && !this.rootUri) {
+                    void this.refresh();
+                }
+            })
+        );
+    }
+
+    get root(): vscode.Uri | undefined {
+        return this.rootUri;
+    }
+
+    private stateKey(): string {
+        return `${UNCHECKED_STATE_KEY}:${this.rootUri?.toString() ?? ''}`;
+    }
+
+    async refresh(rootUri?: vscode.Uri): Promise<void> {
+        const folder = rootUri ?? this.rootUri ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+        if (!folder) {
+            this.roots = [];
+            this.files = [];
+            this.updateSummary();
+            this.changeEmitter.fire();
+            return;
+        }
+        this.rootUri = folder;
+        this.unchecked = new Set(this.workspaceState.get<string[]>(this.stateKey(), []));
+
+        await vscode.window.withProgress({ location: { viewId: FILE_SELECTION_VIEW_ID } }, async () => {
+            try {
+                const config = await loadSheafyConfig(folder);
+                const filePaths = await discoverFiles(config.basePath, config);
+                const roots: SelectionNode[] = [];
+                const directories = new Map<string, SelectionNode>();
+                const files: SelectionNode[] = [];
+
+                // Read several at a time, like an export; only the measures are kept.
+                const limit = createLimiter(DEFAULT_CONCURRENCY);
+                const measures = await Promise.all(filePaths.map(filePath => limit(() => measureFile(filePath, config))));
+                for (const [i, filePath] of filePaths.entries()) {
+                    const relPath = toPosixPath(path.relative(config.basePath, filePath));
+                    const node: SelectionNode = { name: path.basename(filePath), relPath, filePath, ...measures[i] };
+                    files.push(node);
+
+                    // Attach to (and create) parent directory nodes.
+                    let siblings = roots;
+                    const segments = relPath.split('/');
+                    for (let i = 0; i < segments.length - 1; i++) {
+                        const dirRelPath = segments.slice(0, i + 1).join('/');
+                        let dir = directories.get(dirRelPath);
+                        if (!dir) {
+                            dir = { name: segments[i], relPath: dirRelPath, filePath: path.join(config.basePath, dirRelPath), children: [], bytes: 0, tokens: 0 };
+                            directories.set(dirRelPath, dir);
+                            siblings.push(dir);
+                        }
+                        siblings = dir.children!;
+                    }
+                    siblings.push(node);
+                }
+                sortNodes(roots);
+                this.roots = roots;
+                this.files = files;
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Sheafy: Could not list files for selection: ${error.message}`);
+            }
+        });
+        this.updateSummary();
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(node: SelectionNode): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            node.name,
+            node.children ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.id = node.relPath;
+        item.resourceUri = pathToUri(node.filePath);
+        const files = collectFiles(node);
+        const checkedFiles = files.filter(file => !this.unchecked.has(file.relPath));
+        item.checkboxState = checkedFiles.length > 0 && checkedFiles.length === files.length
+            ? vscode.TreeItemCheckboxState.Checked
+            : vscode.TreeItemCheckboxState.Unchecked;
+
+        if (node.children) {
+            const tokens = checkedFiles.reduce((sum, file) => sum + file.tokens, 0);
+            item.description = `${checkedFiles.length}/${files.length} · ~${tokens.toLocaleString()} tokens`;
+        } else {
+            item.description = node.note
+                ? `${formatBytes(node.bytes)} · ${node.note}, skipped`
+                : `${formatBytes(node.bytes)} · ~${node.tokens.toLocaleString()} tokens`;
+            item.command = { command: 'vscode.open', title: 'Open File', arguments: [item.resourceUri] };
+        }
+        return item;
+    }
+
+    getChildren(node?: SelectionNode): SelectionNode[] {
+        return node ? node.children ?? [] : this.roots;
+    }
+
+    getCheckedFiles(): string[] {
+        return this.files.filter(file => !this.unchecked.has(file.relPath)).map(file => file.filePath);
+    }
+
+    async setAllChecked(checked: boolean): Promise<void> {
+        this.unchecked = checked ? new Set() : new Set(this.files.map(file => file.relPath));
+        await this.persist();
+        this.changeEmitter.fire();
+    }
+
+    private async onCheckboxChange(event: vscode.TreeCheckboxChangeEvent<SelectionNode>): Promise<void> {
+        for (const [node, state] of event.items) {
+            for (const file of collectFiles(node)) {
+                if (state === vscode.TreeItemCheckboxState.Checked) {
+                    this.unchecked.delete(file.relPath);
+                } else {
+                    this.unchecked.add(file.relPath);
+                }
+            }
+        }
+        await this.persist();
+        this.changeEmitter.fire(); // Re-render folder states and counts
+    }
+
+    private async persist(): Promise<void> {
+        // Only remember paths that still exist, so the stored state doesn't grow forever.
+        const known = new Set(this.files.map(file => file.relPath));
+        await this.workspaceState.update(this.stateKey(), [...this.unchecked].filter(relPath => known.has(relPath)));
+        this.updateSummary();
+    }
+
+    private updateSummary(): void {
+        if (!this.treeView) {
+            return;
+        }
+        const checked = this.files.filter(file => !this.unchecked.has(file.relPath));
+        const bytes = checked.reduce((sum, file) => sum + file.bytes, 0);
+        const tokens = checked.reduce((sum, file) => sum + file.tokens, 0);
+        this.treeView.description = `${checked.length}/${this.files.length} files · ${formatBytes(bytes)} · ~${tokens.toLocaleString()} tokens`;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,90 @@
+// src/fileSystem.ts
+import { createWriteStream, promises as fsPromises, readFile } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+
+export interface FileStat {
+    isFile: boolean;
+    isDirectory: boolean;
+    size: number;
+    mtimeMs: number;
+}
+
+// A whole file, or its pieces in order, e.g. the sections of a bundle as they are rendered.
+export type FileContent = string | Iterable<string> | AsyncIterable<string>;
+
+export interface DirectoryEntry {
+    name: string;
+    isDirectory: boolean; // Symbolic links are not directories, even if they point at one
+}
+
+/**
+ * The file system an export reads from and writes to. Paths are absolute and built with the
+ * `path` module; failures throw errors with Node's codes (ENOENT, ENOTDIR, ...), so callers can
+ * tell missing files apart from other problems. The extension implements it on
+ * vscode.workspace.fs, so remote and virtual workspaces behave like local folders.
+ */
+export interface FileSystem {
+    readonly isLocal: boolean; // Paths are on this machine's disk, so git can be run on them
+    stat(filePath: string): Promise<FileStat>;
+    readFile(filePath: string): Promise<Buffer>;
+    readDirectory(dirPath: string): Promise<DirectoryEntry[]>;
+    writeFile(filePath: string, content: FileContent): Promise<void>; // If the pieces fail midway, no partial file is left
+    deleteFile(filePath: string): Promise<void>;
+    createDirectory(dirPath: string): Promise<void>; // Creates missing parents; no error if it exists
+}
+
+export const nodeFileSystem: FileSystem = {
+    isLocal: true,
+    async stat(filePath) {
+        const stat = await fsPromises.stat(filePath);
+        return { isFile: stat.isFile(), isDirectory: stat.isDirectory(), size: stat.size, mtimeMs: stat.mtimeMs };
+    },
+    // fs.promises.readFile goes through a FileHandle, which makes reading many small files
+    // markedly slower than the callback API.
+    readFile: promisify(readFile),
+    async readDirectory(dirPath) {
+        const entries = await fsPromises.readdir(dirPath, { withFileTypes: true });
+        return entries.map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }));
+    },
+    // Streamed, so a large bundle is never joined into one string.
+    async writeFile(filePath, content) {
+        if (typeof content === 'string') {
+            await fsPromises.writeFile(filePath, content);
+            return;
+        }
+        try {
+            await pipeline(Readable.from(batchPieces(content)), createWriteStream(filePath));
+        } catch (error) {
+            await fsPromises.unlink(filePath).catch(() => undefined);
+            throw error;
+        }
+    },
+    deleteFile: filePath => fsPromises.unlink(filePath),
+    createDirectory: async dirPath => {
+        await fsPromises.mkdir(dirPath, { recursive: true });
+    },
+};
+
+// A bundle has a few small pieces for every section; a write per piece would be slower than
+// joining the whole bundle.
+const WRITE_BATCH_LENGTH = 64 * 1024;
+
+async function* batchPieces(pieces: Iterable<string> | AsyncIterable<string>): AsyncGenerator<string> {
+    let batch = '';
+    for await (const piece of pieces) {
+        batch += piece;
+        if (batch.length >= WRITE_BATCH_LENGTH) {
+            yield batch;
+            batch = '';
+        }
+    }
+    if (batch) {
+        yield batch;
+    }
+}
+
+export async function readTextFile(fileSystem: FileSystem, filePath: string): Promise<string> {
+    return (await fileSystem.readFile(filePath)).toString('utf-8');
+}
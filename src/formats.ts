@@ -0,0 +1,282 @@
+// src/formats.ts
+import ignore from 'ignore';
+import { BundleFormat } from './types';
+import { countLines, estimateTokens, renderTemplate } from './utils';
+
+export interface SectionInput {
+    displayPath: string;
+    lang: string;
+    content: string;
+    note?: string; // Set for files whose content is not exported (skipped or unreadable)
+    diff?: string; // Unified diff to show after the content
+    template?: string; // Template of a matching template rule; replaces the format's wrapper in text formats
+    placeholders?: { [name: string]: string }; // File details for templates: filename, ext, abspath, size, mtime, git_last_commit
+}
+
+/** Placeholders available in export templates; `{lines}` and `{tokens}` describe the exported content. */
+export const TEMPLATE_PLACEHOLDERS = [
+    'relpath', 'lang', 'content', 'diff', 'filename', 'ext', 'abspath', 'size', 'lines', 'mtime', 'tokens', 'git_last_commit',
+];
+
+/** `template` renders files matching `patterns` (gitignore syntax) or with one of `languages`. */
+export interface TemplateRule {
+    patterns: string[];
+    languages: string[];
+    template: string;
+}
+
+export interface BundleParts {
+    partHeader?: string; // "Part k of n" of a split bundle, already rendered by renderPartHeader
+    prologue: string;
+    header: string; // Dependency list and directory tree / file index, already rendered by renderDependencies and renderHeader
+    sections: string[];
+    epilogue: string;
+}
+
+export interface BundleFormatter {
+    id: BundleFormat;
+    languageId: string; // Language of the temporary editor tab
+    separator: string; // Between rendered sections
+    renderSection(section: SectionInput): string;
+    renderHeader(tree: string, index: string[]): string;
+    renderDependencies(edges: Array<{ from: string; to: string }>): string; // Display paths
+    renderPartHeader(part: number, parts: number): string;
+    // The bundle in pieces to be written one after another. Sections are passed through, not
+    // copied into one large string.
+    renderBundle(parts: BundleParts): string[];
+}
+
+function withTrailingNewline(text: string): string {
+    return text.endsWith('\n') ? text : text + '\n';
+}
+
+/** A backtick fence longer than any backtick run inside `content`, so it can't be closed early. */
+export function chooseFence(content: string): string {
+    const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+    return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+function renderFencedDiff(diff: string | undefined): string {
+    if (!diff) {
+        return '';
+    }
+    const fence = chooseFence(diff);
+    return `\n${fence}diff\n${withTrailingNewline(diff)}${fence}\n`;
+}
+
+function renderTemplatedSection(template: string, { displayPath, lang, content, diff, placeholders }: SectionInput): string {
+    const lines = countLines(content);
+    const rendered = renderTemplate(template, {
+        ...placeholders,
+        relpath: displayPath,
+        lang,
+        content,
+        diff: diff ?? '',
+        lines: String(lines),
+        tokens: String(estimateTokens(content)),
+    });
+    // Templates without a {diff} placeholder get the diff appended as a fenced block.
+    return template.includes('{diff}') ? rendered : rendered + renderFencedDiff(diff);
+}
+
+/** `pieces` with `separator` between them, like join() but without concatenating them. */
+export function interleave(pieces: string[], separator: string): string[] {
+    const result: string[] = [];
+    for (const piece of pieces) {
+        if (result.length > 0) {
+            result.push(separator);
+        }
+        result.push(piece);
+    }
+    return result;
+}
+
+function joinParts({ partHeader, prologue, header, sections, epilogue }: BundleParts, separator: string): string[] {
+    return interleave([partHeader ?? '', prologue, header, ...sections, epilogue].filter(part => part), separator);
+}
+
+function renderTextPartHeader(part: number, parts: number): string {
+    return `Part ${part} of ${parts}`;
+}
+
+function renderTextDependencies(edges: Array<{ from: string; to: string }>): string {
+    return `Dependencies:\n\n${edges.map(edge => `${edge.from} -> ${edge.to}`).join('\n')}\n`;
+}
+
+function renderTextHeader(tree: string, index: string[]): string {
+    const list = index.map((filePath, i) => `${i + 1}. ${filePath}`).join('\n');
+    return `Directory structure:\n\n${tree}\n\nFiles:\n\n${list}\n`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function toCdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function indent(text: string, prefix: string): string {
+    return text.split('\n').map(line => prefix + line).join('\n');
+}
+
+const markdownFormatter: BundleFormatter = {
+    id: 'markdown',
+    languageId: 'markdown',
+    separator: '\n\n',
+    renderSection: ({ displayPath, lang, content, note, diff }) => {
+        if (note !== undefined) {
+            return `### ${displayPath}\n\n${note}\n${renderFencedDiff(diff)}`;
+        }
+        const fence = chooseFence(content);
+        return `### ${displayPath}\n\n${fence}${lang}\n${withTrailingNewline(content)}${fence}\n${renderFencedDiff(diff)}`;
+    },
+    renderHeader: (tree, index) => {
+        const fence = chooseFence(tree);
+        const list = index.map((filePath, i) => `${i + 1}. \`${filePath}\``).join('\n');
+        return `## Directory Structure\n\n${fence}\n${tree}\n${fence}\n\n## Files\n\n${list}\n`;
+    },
+    renderDependencies: edges => `## Dependencies\n\n${edges.map(edge => `- \`${edge.from}\` → \`${edge.to}\``).join('\n')}\n`,
+    renderPartHeader: (part, parts) => `## Part ${part} of ${parts}`,
+    renderBundle: parts => joinParts(parts, '\n\n'),
+};
+
+const xmlFormatter: BundleFormatter = {
+    id: 'xml',
+    languageId: 'xml',
+    separator: '\n',
+    renderSection: ({ displayPath, lang, content, note, diff }) => {
+        const attributes = `path="${escapeXml(displayPath)}" lang="${escapeXml(lang)}"`;
+        const diffElement = diff ? `\n<diff>\n${toCdata(diff)}\n</diff>` : '';
+        if (note !== undefined) {
+            return diff
+                ? `<document ${attributes} omitted="true">\n<note>${escapeXml(note)}</note>${diffElement}\n</document>`
+                : `<document ${attributes} omitted="true">${escapeXml(note)}</document>`;
+        }
+        if (diff) {
+            return `<document ${attributes}>\n<content>\n${toCdata(content)}\n</content>${diffElement}\n</document>`;
+        }
+        return `<document ${attributes}>\n${toCdata(content)}\n</document>`;
+    },
+    renderHeader: (tree, index) => [
+        `<tree>\n${toCdata(tree)}\n</tree>`,
+        '<index>',
+        ...index.map((filePath, i) => `<file index="${i + 1}" path="${escapeXml(filePath)}"/>`),
+        '</index>',
+    ].join('\n'),
+    renderDependencies: edges => [
+        '<dependencies>',
+        ...edges.map(edge => `<edge from="${escapeXml(edge.from)}" to="${escapeXml(edge.to)}"/>`),
+        '</dependencies>',
+    ].join('\n'),
+    renderPartHeader: (part, parts) => `<part index="${part}" count="${parts}"/>`,
+    renderBundle: ({ partHeader, prologue, header, sections, epilogue }) => interleave([
+        '<documents>',
+        partHeader ?? '',
+        prologue ? `<prologue>${escapeXml(prologue)}</prologue>` : '',
+        header,
+        ...sections,
+        epilogue ? `<epilogue>${escapeXml(epilogue)}</epilogue>` : '',
+        '</documents>\n',
+    ].filter(part => part), '\n'),
+};
+
+// The JSON bundle is always a plain array of files; prologue, header, dependencies, epilogue and part headers are not included.
+const jsonFormatter: BundleFormatter = {
+    id: 'json',
+    languageId: 'json',
+    separator: ',\n',
+    renderSection: ({ displayPath, lang, content, note, diff }) => {
+        const entry = note !== undefined
+            ? { path: displayPath, lang, content: null, note, diff }
+            : { path: displayPath, lang, content, diff };
+        return indent(JSON.stringify(entry, null, 2), '  '); // `diff: undefined` is omitted
+    },
+    renderHeader: () => '',
+    renderDependencies: () => '',
+    renderPartHeader: () => '',
+    renderBundle: ({ sections }) => sections.length > 0 ? ['[\n', ...interleave(sections, ',\n'), '\n]\n'] : ['[]\n'],
+};
+
+const plainFormatter: BundleFormatter = {
+    id: 'plain',
+    languageId: 'plaintext',
+    separator: '\n\n',
+    renderSection: ({ displayPath, content, note, diff }) => {
+        const body = note !== undefined ? note + '\n' : withTrailingNewline(content);
+        return `==> ${displayPath} <==\n${body}${diff ? `\n==> ${displayPath} (diff) <==\n${withTrailingNewline(diff)}` : ''}`;
+    },
+    renderHeader: renderTextHeader,
+    renderDependencies: renderTextDependencies,
+    renderPartHeader: renderTextPartHeader,
+    renderBundle: parts => joinParts(parts, '\n\n'),
+};
+
+function createCustomFormatter(template: string): BundleFormatter {
+    return {
+        id: 'custom',
+        languageId: 'markdown',
+        separator: '\n\n',
+        renderSection: section => {
+            if (section.note !== undefined) {
+                return `### ${section.displayPath}\n\n${section.note}\n${renderFencedDiff(section.diff)}`;
+            }
+            return renderTemplatedSection(section.template ?? template, section);
+        },
+        renderHeader: renderTextHeader,
+        renderDependencies: renderTextDependencies,
+        renderPartHeader: renderTextPartHeader,
+        renderBundle: parts => joinParts(parts, '\n\n'),
+    };
+}
+
+const BUILTIN_FORMATTERS: { [id: string]: BundleFormatter } = {
+    markdown: markdownFormatter,
+    xml: xmlFormatter,
+    json: jsonFormatter,
+    plain: plainFormatter,
+};
+
+/**
+ * Returns a function that finds the template for a file (path relative to the project root, and
+ * language id): the template of the last matching rule, or undefined if no rule matches.
+ */
+export function createTemplateResolver(rules: TemplateRule[]): (relPath: string, lang: string) => string | undefined {
+    const matchers = rules.map(rule => ({ filter: rule.patterns.length > 0 ? ignore().add(rule.patterns) : null, rule }));
+    return (relPath, lang) => {
+        let template: string | undefined;
+        const isPathValid = ignore.isPathValid(relPath); // Files outside the project match languages only
+        for (const { filter, rule } of matchers) {
+            if (rule.languages.includes(lang) || (filter && isPathValid && filter.ignores(relPath))) {
+                template = rule.template;
+            }
+        }
+        return template;
+    };
+}
+
+export const BUNDLE_FORMATS: BundleFormat[] = ['markdown', 'xml', 'json', 'plain', 'custom'];
+
+// Template rules replace the wrapper of matching files in markdown and plain bundles; XML and JSON keep their structure.
+function withTemplateRules(formatter: BundleFormatter): BundleFormatter {
+    return {
+        ...formatter,
+        renderSection: section => section.template !== undefined && section.note === undefined
+            ? renderTemplatedSection(section.template, section)
+            : formatter.renderSection(section),
+    };
+}
+
+/**
+ * Returns the formatter for `format`; `custom` renders each file with `template`.
+ */
+export function getFormatter(format: BundleFormat, template: string): BundleFormatter {
+    if (format === 'custom') {
+        return createCustomFormatter(template);
+    }
+    return format === 'markdown' || format === 'plain' ? withTemplateRules(BUILTIN_FORMATTERS[format]) : BUILTIN_FORMATTERS[format];
+}
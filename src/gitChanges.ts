@@ -0,0 +1,132 @@
+// src/gitChanges.ts
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+export type GitChangeMode = 'working' | 'staged' | 'since';
+
+export type GitDiffMode = 'none' | 'append' | 'only';
+
+export interface GitChangeOptions {
+    mode: GitChangeMode;
+    ref?: string; // Required for 'since'
+    mergeBase?: boolean; // For 'since': diff against merge-base(ref, HEAD) instead of ref itself
+    includeDiffs?: boolean;
+}
+
+export interface GitChange {
+    filePath: string; // Absolute path
+    untracked: boolean;
+    diff?: string; // Unified diff, if requested
+}
+
+// The well-known hash of git's empty tree, used as base in repositories without commits.
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+const MAX_GIT_OUTPUT = 64 * 1024 * 1024;
+
+/**
+ * Runs git and resolves with stdout. `okExitCodes` lists non-zero exit codes that are not
+ * errors (e.g. `git diff --no-index` exits with 1 when files differ).
+ */
+function runGit(cwd: string, args: string[], okExitCodes: number[] = []): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, maxBuffer: MAX_GIT_OUTPUT, encoding: 'utf-8' }, (error, stdout, stderr) => {
+            if (error) {
+                const code = typeof error.code === 'number' ? error.code : undefined;
+                if (code !== undefined && okExitCodes.includes(code)) {
+                    resolve(stdout);
+                    return;
+                }
+                reject(new Error(stderr.trim() || error.message));
+                return;
+            }
+            resolve(stdout);
+        });
+    });
+}
+
+function splitNul(output: string): string[] {
+    return output.split('\0').filter(entry => entry.length > 0);
+}
+
+export async function getGitRoot(cwd: string): Promise<string> {
+    try {
+        return path.resolve((await runGit(cwd, ['rev-parse', '--show-toplevel'])).trim());
+    } catch (error: any) {
+        throw new Error(`Not a git repository (${cwd}): ${error.message}`);
+    }
+}
+
+async function resolveBase(repoRoot: string, options: GitChangeOptions): Promise<string | null> {
+    switch (options.mode) {
+        case 'staged':
+            return null; // Staged changes are always relative to the index
+        case 'since': {
+            if (!options.ref) {
+                throw new Error('A git ref is required to export changes since a ref.');
+            }
+            if (options.ref.startsWith('-')) {
+                throw new Error(`Invalid git ref '${options.ref}'.`); // git would read it as an option
+            }
+            if (options.mergeBase) {
+                return (await runGit(repoRoot, ['merge-base', options.ref, 'HEAD'])).trim();
+            }
+            return (await runGit(repoRoot, ['rev-parse', '--verify', `${options.ref}^{commit}`])).trim();
+        }
+        default:
+            try {
+                return (await runGit(repoRoot, ['rev-parse', '--verify', 'HEAD^{commit}'])).trim();
+            } catch {
+                return EMPTY_TREE; // No commits yet
+            }
+    }
+}
+
+/**
+ * Lists files changed in the git repository containing `cwd`:
+ * - `working`: tracked files changed since HEAD (staged or not) plus untracked files;
+ * - `staged`: files with staged changes;
+ * - `since`: files changed between `ref` (or its merge-base with HEAD) and the working tree, plus untracked files.
+ * Deleted files are not listed. Untracked files honor git's standard excludes.
+ */
+export async function getGitChanges(cwd: string, options: GitChangeOptions): Promise<GitChange[]> {
+    const repoRoot = await getGitRoot(cwd);
+    const base = await resolveBase(repoRoot, options);
+    const diffTarget = base === null ? ['--cached'] : [base];
+    // Plain diffs whatever the user's git config says: no colors, no external diff tools.
+    const diffFlags = ['--no-color', '--no-ext-diff'];
+
+    const tracked = splitNul(await runGit(repoRoot, ['diff', ...diffFlags, '--name-only', '-z', '--diff-filter=d', ...diffTarget]));
+    const untracked = options.mode === 'staged'
+        ? []
+        : splitNul(await runGit(repoRoot, ['ls-files', '--others', '--exclude-standard', '-z']));
+
+    const changes: GitChange[] = [];
+    for (const relPath of tracked) {
+        const change: GitChange = { filePath: path.join(repoRoot, relPath), untracked: false };
+        if (options.includeDiffs) {
+            change.diff = await runGit(repoRoot, ['diff', ...diffFlags, ...diffTarget, '--', relPath]);
+        }
+        changes.push(change);
+    }
+    for (const relPath of untracked) {
+        const change: GitChange = { filePath: path.join(repoRoot, relPath), untracked: true };
+        if (options.includeDiffs) {
+            change.diff = await runGit(repoRoot, ['diff', ...diffFlags, '--no-index', '--', '/dev/null', relPath], [1]);
+        }
+        changes.push(change);
+    }
+    return changes.sort((a, b) => (a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : 0));
+}
+
+/**
+ * The last commit that changed `filePath`, as "<short hash> <date> <subject>", or '' if the file
+ * is untracked or not in a git repository.
+ */
+export async function getLastCommit(filePath: string): Promise<string> {
+    try {
+        return (await runGit(path.dirname(filePath), ['log', '-1', '--format=%h %ad %s', '--date=short', '--', path.basename(filePath)])).trim();
+    } catch {
+        return '';
+    }
+}
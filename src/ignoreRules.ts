@@ -0,0 +1,339 @@
+// src/ignoreRules.ts
+import * as path from 'path';
+import * as os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import ignore, { Ignore } from 'ignore';
+import { bundlePartName, MergedSheafyConfig, SHEAFY_TOML_FILENAME } from './config';
+import { ExclusionRule } from './types';
+import { toPosixPath } from './utils';
+import { FileSystem, readTextFile } from './fileSystem';
+
+export const SHEAFY_IGNORE_FILENAME = '.sheafyignore';
+
+// Lowest-precedence layer; any later layer may re-include these (e.g. `!dist/` in ignore_patterns).
+export const BUILTIN_IGNORE_PATTERNS = ['node_modules/', 'target/', 'build/', 'dist/'];
+
+const execFileAsync = promisify(execFile);
+
+export interface IgnoreLayer {
+    baseDir: string; // Patterns are matched against paths relative to this directory
+    source: string; // Where the patterns came from, e.g. a file path or "sheafy.toml ignore_patterns"
+    patterns: string[];
+    filter: Ignore;
+}
+
+/**
+ * Ignore layers in increasing order of precedence, mirroring git: the last layer with a
+ * matching (or negating) pattern decides. Per-directory files are appended as the walk descends,
+ * so deeper files override shallower ones within their group.
+ */
+export interface IgnoreRules {
+    fileSystem: FileSystem; // Ignore files are read from here as the walk descends
+    useGitignore: boolean;
+    basePath: string;
+    defaults: IgnoreLayer[]; // Built-in patterns, global core.excludesFile, .git/info/exclude
+    gitignore: IgnoreLayer[];
+    sheafyignore: IgnoreLayer[];
+    overrides: IgnoreLayer[]; // sheafy.toml ignore_patterns, then Sheafy's own files (always excluded)
+    include: IncludeRules;
+}
+
+/**
+ * Allow-list applied to files that survived the ignore layers. Ignore rules always win: an
+ * include pattern never re-includes an ignored file. Within the allow-list, a file must match
+ * `include_patterns` (if any) and `include_extensions` (if any), and must not match
+ * `exclude_extensions`.
+ */
+export interface IncludeRules {
+    patterns: Ignore | null;
+    extensions: string[];
+    excludedExtensions: string[];
+}
+
+function createLayer(baseDir: string, source: string, patterns: string[]): IgnoreLayer {
+    return { baseDir, source, patterns, filter: ignore().add(patterns) };
+}
+
+async function readIgnoreFile(fileSystem: FileSystem, filePath: string): Promise<string[] | null> {
+    try {
+        const content = await readTextFile(fileSystem, filePath);
+        return content.split(/\r?\n/);
+    } catch (error: any) {
+        if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+            console.warn(`Sheafy: Could not read ignore file ${filePath}: ${error.message}`);
+        }
+        return null;
+    }
+}
+
+async function findGitRoot(fileSystem: FileSystem, startDir: string): Promise<{ root: string; gitDir: string } | null> {
+    let dir = startDir;
+    while (true) {
+        const dotGit = path.join(dir, '.git');
+        try {
+            const stat = await fileSystem.stat(dotGit);
+            if (stat.isDirectory) {
+                return { root: dir, gitDir: dotGit };
+            }
+            // Worktrees and submodules use a ".git" file pointing at the real git directory.
+            const pointer = (await readTextFile(fileSystem, dotGit)).match(/^gitdir:\s*(.+)$/m);
+            if (pointer) {
+                return { root: dir, gitDir: path.resolve(dir, pointer[1].trim()) };
+            }
+        } catch {
+            // Not here, keep walking up.
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return null;
+        }
+        dir = parent;
+    }
+}
+
+async function getGlobalExcludesFile(cwd: string): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', ['config', '--path', '--get', 'core.excludesFile'], { cwd, timeout: 5000 });
+        if (stdout.trim()) {
+            return stdout.trim();
+        }
+    } catch {
+        // Unset, or git is not installed; fall back to git's default location.
+    }
+    const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(xdgConfigHome, 'git', 'ignore');
+}
+
+function isSameOrInside(parent: string, child: string): boolean {
+    const rel = path.relative(parent, child);
+    return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+/**
+ * Adds the .gitignore / .sheafyignore of `dirPath` (if any) to the rules. Pass the directory's
+ * entry names when known to avoid probing the file system for files that don't exist.
+ */
+export async function enterDirectory(rules: IgnoreRules, dirPath: string, entryNames?: Set<string>): Promise<IgnoreRules> {
+    let next = rules;
+    if (rules.useGitignore && (!entryNames || entryNames.has('.gitignore'))) {
+        const gitignorePath = path.join(dirPath, '.gitignore');
+        const patterns = await readIgnoreFile(rules.fileSystem, gitignorePath);
+        if (patterns) {
+            next = { ...next, gitignore: [...next.gitignore, createLayer(dirPath, gitignorePath, patterns)] };
+        }
+    }
+    if (isSameOrInside(rules.basePath, dirPath) && (!entryNames || entryNames.has(SHEAFY_IGNORE_FILENAME))) {
+        const sheafyignorePath = path.join(dirPath, SHEAFY_IGNORE_FILENAME);
+        const patterns = await readIgnoreFile(rules.fileSystem, sheafyignorePath);
+        if (patterns) {
+            next = { ...next, sheafyignore: [...next.sheafyignore, createLayer(dirPath, sheafyignorePath, patterns)] };
+        }
+    }
+    return next;
+}
+
+/**
+ * Builds the ignore rules inherited by `startPath`: global and repository excludes, plus every
+ * ignore file between the git repository root (or `config.basePath` outside a repository) and
+ * the parent of `startPath`. The walk adds `startPath`'s own files via `enterDirectory`.
+ */
+export async function loadIgnoreRules(config: MergedSheafyConfig, startPath: string): Promise<IgnoreRules> {
+    const { basePath, fileSystem } = config;
+    const defaults: IgnoreLayer[] = [createLayer(basePath, 'built-in defaults', BUILTIN_IGNORE_PATTERNS)];
+    let topDir = basePath;
+
+    if (config.use_gitignore) {
+        const gitRoot = await findGitRoot(fileSystem, basePath);
+        const repoRoot = gitRoot?.root ?? basePath;
+        // The global excludes file is on this machine, so it only applies to local folders.
+        if (fileSystem.isLocal) {
+            const excludesFile = await getGlobalExcludesFile(basePath);
+            const globalPatterns = await readIgnoreFile(fileSystem, excludesFile);
+            if (globalPatterns) {
+                defaults.push(createLayer(repoRoot, excludesFile, globalPatterns));
+            }
+        }
+        if (gitRoot) {
+            const excludePath = path.join(gitRoot.gitDir, 'info', 'exclude');
+            const excludePatterns = await readIgnoreFile(fileSystem, excludePath);
+            if (excludePatterns) {
+                defaults.push(createLayer(gitRoot.root, excludePath, excludePatterns));
+            }
+            topDir = gitRoot.root;
+        }
+    }
+
+    const outputFiles = [path.join(basePath, config.bundle_name), path.join(config.working_dir, config.bundle_name)];
+    const ownFiles = [
+        ...outputFiles,
+        ...outputFiles.map(filePath => bundlePartName(filePath, '*')),
+        path.join(basePath, SHEAFY_TOML_FILENAME),
+    ];
+    const ownPatterns = [...new Set(ownFiles
+        .filter(filePath => isSameOrInside(basePath, filePath))
+        .map(filePath => '/' + toPosixPath(path.relative(basePath, filePath))))];
+
+    let rules: IgnoreRules = {
+        fileSystem,
+        useGitignore: config.use_gitignore,
+        basePath,
+        defaults,
+        gitignore: [],
+        sheafyignore: [],
+        overrides: [
+            createLayer(basePath, `${SHEAFY_TOML_FILENAME} ignore_patterns`, config.ignore_patterns_array),
+            createLayer(basePath, 'Sheafy output and configuration', ownPatterns),
+        ],
+        include: {
+            patterns: config.include_patterns_array.length > 0 ? ignore().add(config.include_patterns_array) : null,
+            extensions: config.include_extensions,
+            excludedExtensions: config.exclude_extensions,
+        },
+    };
+
+    const chain: string[] = [];
+    for (let dir = startPath; dir !== topDir && isSameOrInside(topDir, dir);) {
+        dir = path.dirname(dir);
+        chain.unshift(dir);
+    }
+    for (const dir of chain) {
+        rules = await enterDirectory(rules, dir);
+    }
+    return rules;
+}
+
+/**
+ * Returns the layer that decides whether `absPath` is ignored, or null if no layer matches.
+ */
+export function findDecidingLayer(rules: IgnoreRules, absPath: string, isDirectory: boolean): { layer: IgnoreLayer; ignored: boolean } | null {
+    const layers = [...rules.defaults, ...rules.gitignore, ...rules.sheafyignore, ...rules.overrides];
+    for (let i = layers.length - 1; i >= 0; i--) {
+        const layer = layers[i];
+        const rel = path.relative(layer.baseDir, absPath);
+        if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) {
+            continue; // Layer is scoped to a different directory
+        }
+        const posixRel = toPosixPath(rel);
+        const parentRel = path.posix.dirname(posixRel);
+        // `ignore` applies a layer's directory exclusions to everything below them. The walk only
+        // reaches this path if its parent directory was re-included by a higher layer, so an
+        // inherited verdict from this layer is stale and must not decide.
+        if (parentRel !== '.' && layer.filter.ignores(parentRel + '/')) {
+            continue;
+        }
+        const result = layer.filter.test(posixRel + (isDirectory ? '/' : ''));
+        if (result.ignored || result.unignored) {
+            return { layer, ignored: result.ignored };
+        }
+    }
+    return null;
+}
+
+/**
+ * Explains why `absPath` is ignored: the pattern of the deciding layer that matched it, and
+ * where that pattern came from (`.gitignore:12` for ignore files, relative to the project root).
+ * Returns null if the path is not ignored.
+ */
+export function explainIgnored(rules: IgnoreRules, absPath: string, isDirectory: boolean): ExclusionRule | null {
+    const decided = findDecidingLayer(rules, absPath, isDirectory);
+    if (!decided?.ignored) {
+        return null;
+    }
+    const { layer } = decided;
+    const posixRel = toPosixPath(path.relative(layer.baseDir, absPath)) + (isDirectory ? '/' : '');
+    let source = layer.source;
+    if (path.isAbsolute(layer.source)) {
+        const rel = path.relative(rules.basePath, layer.source);
+        source = rel.startsWith('..') || path.isAbsolute(rel) ? layer.source : toPosixPath(rel);
+    }
+    // As in git, the last matching pattern of the layer decides.
+    for (let i = layer.patterns.length - 1; i >= 0; i--) {
+        const pattern = layer.patterns[i];
+        if (!pattern.trim() || pattern.startsWith('#')) {
+            continue;
+        }
+        const result = ignore().add(pattern).test(posixRel);
+        if (result.ignored || result.unignored) {
+            return { source: path.isAbsolute(layer.source) ? `${source}:${i + 1}` : source, pattern: pattern.trim() };
+        }
+    }
+    return { source, pattern: '' };
+}
+
+export function isIgnored(rules: IgnoreRules, absPath: string, isDirectory: boolean): boolean {
+    return findDecidingLayer(rules, absPath, isDirectory)?.ignored ?? false;
+}
+
+function findExtension(fileName: string, extensions: string[]): string | undefined {
+    return extensions.find(ext => fileName.endsWith('.' + ext));
+}
+
+/**
+ * Returns the include rule that filters out the file (exclude_extensions, include_extensions or
+ * include_patterns), or null if the file passes them.
+ */
+export function explainNotIncluded(rules: IgnoreRules, absFilePath: string): ExclusionRule | null {
+    const { patterns, extensions, excludedExtensions } = rules.include;
+    const fileName = path.basename(absFilePath).toLowerCase();
+    const excludedExtension = findExtension(fileName, excludedExtensions);
+    if (excludedExtension) {
+        return { source: `${SHEAFY_TOML_FILENAME} exclude_extensions`, pattern: excludedExtension };
+    }
+    if (extensions.length > 0 && !findExtension(fileName, extensions)) {
+        return { source: `${SHEAFY_TOML_FILENAME} include_extensions`, pattern: extensions.join(', ') };
+    }
+    if (patterns) {
+        const rel = path.relative(rules.basePath, absFilePath);
+        if (!rel || rel.startsWith('..') || !patterns.ignores(toPosixPath(rel))) {
+            return { source: `${SHEAFY_TOML_FILENAME} include_patterns`, pattern: 'no pattern matches' };
+        }
+    }
+    return null;
+}
+
+/**
+ * Returns false if the file is filtered out by include_patterns / include_extensions / exclude_extensions.
+ */
+export function matchesIncludeRules(rules: IgnoreRules, absFilePath: string): boolean {
+    return explainNotIncluded(rules, absFilePath) === null;
+}
+
+/**
+ * Creates a filter for individual files (from git, editor tabs, ...) that applies the same rules
+ * as a directory walk from `config.basePath`: every ancestor directory must survive the ignore
+ * layers, then the file itself must survive them and the include rules. Files outside
+ * `config.basePath` never pass.
+ */
+export async function createPathFilter(config: MergedSheafyConfig): Promise<(absFilePath: string) => Promise<boolean>> {
+    const baseRules = await loadIgnoreRules(config, config.basePath);
+    // Rules in effect inside each visited directory, or null if the directory is excluded.
+    const directoryRules = new Map<string, Promise<IgnoreRules | null>>();
+
+    const rulesFor = (dirPath: string): Promise<IgnoreRules | null> => {
+        let cached = directoryRules.get(dirPath);
+        if (!cached) {
+            cached = (async () => {
+                if (dirPath === config.basePath) {
+                    return enterDirectory(baseRules, dirPath);
+                }
+                const parentRules = await rulesFor(path.dirname(dirPath));
+                if (!parentRules || path.basename(dirPath) === '.git' || isIgnored(parentRules, dirPath, true)) {
+                    return null;
+                }
+                return enterDirectory(parentRules, dirPath);
+            })();
+            directoryRules.set(dirPath, cached);
+        }
+        return cached;
+    };
+
+    return async (absFilePath: string) => {
+        const rel = path.relative(config.basePath, absFilePath);
+        if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) {
+            return false;
+        }
+        const rules = await rulesFor(path.dirname(absFilePath));
+        return rules !== null && !isIgnored(rules, absFilePath, false) && matchesIncludeRules(rules, absFilePath);
+    };
+}
@@ -0,0 +1,160 @@
+// src/redaction.ts
+import * as path from 'path';
+import { SecretDetector } from './types';
+
+export const SECRET_DETECTORS: SecretDetector[] = ['pem', 'aws', 'jwt', 'entropy', 'dotenv'];
+
+/** A user-defined pattern from `secret_patterns`; `pattern` is a JavaScript regular expression source. */
+export interface SecretPattern {
+    kind: string;
+    pattern: string;
+}
+
+export interface SecretHit {
+    kind: string;
+    line: number; // 1-based line of the start of the match
+}
+
+export interface RedactionResult {
+    content: string;
+    hits: SecretHit[];
+}
+
+interface SecretRule {
+    kind: string;
+    regex: RegExp; // Global; if it has a capture group, only the first group is redacted
+    accept?: (match: string) => boolean;
+    dotenvOnly?: boolean;
+}
+
+// Rules are listed by precedence: when matches overlap, the one from the earlier rule is kept.
+const BUILTIN_RULES: { [detector in SecretDetector]: SecretRule[] } = {
+    pem: [{
+        kind: 'pem',
+        regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+    }],
+    aws: [
+        { kind: 'aws-key', regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+        { kind: 'aws-key', regex: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi },
+    ],
+    jwt: [{ kind: 'jwt', regex: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g }],
+    dotenv: [{
+        kind: 'dotenv',
+        regex: /^[ \t]*(?:export[ \t]+)?[A-Za-z_][A-Za-z0-9_.-]*[ \t]*=[ \t]*(\S(?:.*\S)?)[ \t]*$/gm,
+        dotenvOnly: true,
+    }],
+    entropy: [{ kind: 'high-entropy', regex: /[A-Za-z0-9+/_-]{20,}/g, accept: looksRandom }], // Without '=', so assignments keep their key
+};
+
+function shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / text.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+/**
+ * Heuristic for generated tokens: mixed case, at least two digits, and close to the entropy of a
+ * random string of the same length. Identifiers, words, paths and hex hashes stay well below it.
+ */
+function looksRandom(token: string): boolean {
+    if (!/[0-9].*[0-9]/.test(token) || !/[a-z]/.test(token) || !/[A-Z]/.test(token)) {
+        return false;
+    }
+    return shannonEntropy(token) >= Math.min(4.2, Math.log2(token.length) - 0.7);
+}
+
+/** Whether `fileName` is a dotenv file (`.env`, `.env.local`, `production.env`, ...). */
+export function isDotenvFile(fileName: string): boolean {
+    const base = path.basename(fileName).toLowerCase();
+    return base === '.env' || base.startsWith('.env.') || base.endsWith('.env');
+}
+
+/**
+ * Builds the rule set for the enabled built-in detectors plus custom patterns. Throws if a
+ * custom pattern is not a valid regular expression.
+ */
+export function buildSecretRules(detectors: SecretDetector[], patterns: SecretPattern[]): SecretRule[] {
+    const rules: SecretRule[] = [];
+    for (const detector of SECRET_DETECTORS) {
+        if (detectors.includes(detector) && detector !== 'entropy') {
+            rules.push(...BUILTIN_RULES[detector]);
+        }
+    }
+    for (const { kind, pattern } of patterns) {
+        rules.push({ kind, regex: new RegExp(pattern, 'gm') });
+    }
+    // The entropy heuristic is the least specific, so any other match wins over it.
+    if (detectors.includes('entropy')) {
+        rules.push(...BUILTIN_RULES.entropy);
+    }
+    return rules;
+}
+
+/**
+ * Replaces every secret found by `rules` with `[REDACTED:<kind>]` and reports where the
+ * secrets were. `fileName` decides whether dotenv rules apply.
+ */
+export function redactSecrets(content: string, fileName: string, rules: SecretRule[]): RedactionResult {
+    const dotenv = isDotenvFile(fileName);
+    const matches: Array<{ start: number; end: number; kind: string; order: number }> = [];
+    rules.forEach((rule, order) => {
+        if (rule.dotenvOnly && !dotenv) {
+            return;
+        }
+        rule.regex.lastIndex = 0;
+        for (const match of content.matchAll(rule.regex)) {
+            const secret = match[1] ?? match[0];
+            if (!secret || (rule.accept && !rule.accept(secret))) {
+                continue;
+            }
+            const start = match.index! + (match[1] !== undefined ? match[0].indexOf(match[1]) : 0);
+            matches.push({ start, end: start + secret.length, kind: rule.kind, order });
+        }
+    });
+    if (matches.length === 0) {
+        return { content, hits: [] };
+    }
+
+    // Matches are in rule order, so a match of a rule with precedence is kept and any later match
+    // overlapping it is dropped, wherever it starts. `kept` stays sorted by position.
+    const kept: typeof matches = [];
+    for (const match of matches) {
+        let low = 0;
+        let high = kept.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (kept[middle].start < match.start) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        const overlapsPrevious = low > 0 && kept[low - 1].end > match.start;
+        const overlapsNext = low < kept.length && kept[low].start < match.end;
+        if (!overlapsPrevious && !overlapsNext) {
+            kept.splice(low, 0, match);
+        }
+    }
+    const hits: SecretHit[] = [];
+    let redacted = '';
+    let position = 0;
+    let line = 1;
+    for (const match of kept) {
+        const before = content.slice(position, match.start);
+        line += before.split('\n').length - 1;
+        hits.push({ kind: match.kind, line });
+        // Multi-line secrets keep their line breaks, so the following lines keep their numbers.
+        const lineBreaks = content.slice(match.start, match.end).replace(/[^\n]/g, '');
+        redacted += `${before}[REDACTED:${match.kind}]${lineBreaks}`;
+        line += lineBreaks.length;
+        position = match.end;
+    }
+    return { content: redacted + content.slice(position), hits };
+}
@@ -1,45 +1,24 @@
 // src/sheafyConfig.ts
 import * as vscode from 'vscode';
-import { promises as fsPromises } from 'fs';
 import * as path from 'path';
-import { parse } from '@iarna/toml'; // 确保你已经 npm install @iarna/toml @types/iarna__toml (如果后者存在) 或者只安装前者
-
-export const SHEAFY_TOML_FILENAME = "sheafy.toml";
-
-export interface SheafyTomlConfig {
-    bundle_name?: string;
-    working_dir?: string;
-    use_gitignore?: boolean;
-    ignore_patterns?: string; // Multi-line string
-    prologue?: string;
-    epilogue?: string;
-}
-
-export interface SheafyVSCodeSettings {
-    respectGitignore: boolean;
-    exportDestinations: Array<'clipboard' | 'tempTab' | 'rootDir' | 'workingDir'>;
-    exportFormatTemplate: string;
-    folderExportPathRelativeToClickedFolder: boolean;
-}
-
-export interface MergedSheafyConfig {
-    tomlConfig: SheafyTomlConfig | null;
-    vscodeSettings: SheafyVSCodeSettings;
-    // Effective values after merging/considering defaults
-    bundle_name: string;
-    working_dir: string; // Absolute path
-    use_gitignore: boolean;
-    ignore_patterns_array: string[]; // Parsed from multi-line string
-    prologue: string;
-    epilogue: string;
-    basePath: string; // Workspace root path
-    exportFormatTemplate: string;
-    exportDestinations: Array<'clipboard' | 'tempTab' | 'rootDir' | 'workingDir'>;
-    folderExportPathRelativeToClickedFolder: boolean;
-}
-
-export async function loadSheafyConfig(resourceUri?: vscode.Uri): Promise<MergedSheafyConfig> {
-    let basePath: string;
+import { ExportDestination } from './types';
+import {
+    DEFAULT_EXPORT_FORMAT_TEMPLATE,
+    MergedSheafyConfig,
+    readSheafyToml,
+    resolveSheafyConfig,
+    SHEAFY_TOML_FILENAME,
+    SheafyConfigError,
+    SheafyTomlDocument,
+    SheafyVSCodeSettings,
+} from './config';
+import { uriToPath, WorkspaceFileSystem } from './workspaceFileSystem';
+
+const showConfigWarning = (message: string) => vscode.window.showWarningMessage(`Sheafy: ${message}`);
+
+// The folder an export runs in: the workspace folder of `resourceUri` (or the first one), else
+// `resourceUri` itself, else the directory of the active editor's document.
+function resolveRoot(resourceUri?: vscode.Uri): { rootUri: vscode.Uri; workspaceFolder: vscode.WorkspaceFolder | undefined } {
     let workspaceFolder: vscode.WorkspaceFolder | undefined;
 
     if (resourceUri) {
@@ -50,87 +29,102 @@ export async function loadSheafyConfig(resourceUri?: vscode.Uri): Promise<Merged
         // Fallback to the first workspace folder if resourceUri doesn't resolve or isn't provided
         workspaceFolder = vscode.workspace.workspaceFolders[0];
     }
+    if (workspaceFolder) {
+        return { rootUri: workspaceFolder.uri, workspaceFolder };
+    }
+    if (resourceUri) {
+        return { rootUri: resourceUri, workspaceFolder };
+    }
 
-    if (!workspaceFolder) {
-        // If still no workspace folder, attempt to use the path of the active editor if available
-        const activeEditorUri = vscode.window.activeTextEditor?.document.uri;
-        if (activeEditorUri && activeEditorUri.scheme === 'file') {
-            workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditorUri);
-            if (!workspaceFolder) { // If not part of a workspace, use the directory of the file
-                 basePath = path.dirname(activeEditorUri.fsPath);
-            } else {
-                basePath = workspaceFolder.uri.fsPath;
-            }
-        } else {
-            // As a last resort, if no workspace and no active editor, throw error or use a sensible default for non-workspace operations.
-            // For now, we'll throw as most operations depend on a base path.
-            throw new Error("Sheafy: Cannot determine workspace folder. Please open a folder or workspace.");
-        }
-    } else {
-        basePath = workspaceFolder.uri.fsPath;
+    // Without a workspace, use the directory of the active editor's document if it has one.
+    const activeEditorUri = vscode.window.activeTextEditor?.document.uri;
+    if (activeEditorUri && activeEditorUri.scheme !== 'untitled') {
+        return { rootUri: vscode.Uri.joinPath(activeEditorUri, '..'), workspaceFolder };
     }
+    // Most operations depend on a root folder.
+    throw new Error("Sheafy: Cannot determine workspace folder. Please open a folder or workspace.");
+}
 
+// Parsed sheafy.toml files by the URI of their folder. Entries are dropped by the watcher of
+// watchSheafyConfigFiles, so commands don't re-read the file every time.
+const tomlCache = new Map<string, Promise<SheafyTomlDocument>>();
 
-    // 1. Load VSCode settings
-    const vsSettings = vscode.workspace.getConfiguration('sheafy', workspaceFolder?.uri);
-    const vscodeConfig: SheafyVSCodeSettings = {
-        respectGitignore: vsSettings.get<boolean>('respectGitignore', true),
-        exportDestinations: vsSettings.get<Array<'clipboard' | 'tempTab' | 'rootDir' | 'workingDir'>>('exportDestinations', ['clipboard']),
-        exportFormatTemplate: vsSettings.get<string>('exportFormatTemplate', "### {relpath}\n\n```{lang}\n{content}\n````\n"),
-        folderExportPathRelativeToClickedFolder: vsSettings.get<boolean>('folderExport.pathRelativeToClickedFolder', false) // <--- 读取新设置
-    };
-
-    // 2. Load sheafy.toml
-    let tomlConfig: SheafyTomlConfig | null = null;
-    const tomlPath = path.join(basePath, SHEAFY_TOML_FILENAME);
-    try {
-        const tomlContent = await fsPromises.readFile(tomlPath, 'utf-8');
-        const parsedToml = parse(tomlContent); // @iarna/toml can throw TomlError
-        if (parsedToml.sheafy && typeof parsedToml.sheafy === 'object') {
-            tomlConfig = parsedToml.sheafy as SheafyTomlConfig;
-        } else {
-            vscode.window.showWarningMessage(`Sheafy: ${SHEAFY_TOML_FILENAME} found, but is missing a [sheafy] section or is malformed. Using defaults.`);
-        }
-    } catch (error: any) {
-        if (error.code === 'ENOENT') {
-            // sheafy.toml not found, which is fine.
-        } else if (error.name === 'TomlError') { // Check for TomlError specifically
-             vscode.window.showErrorMessage(`Sheafy: Error parsing ${SHEAFY_TOML_FILENAME}: ${error.message} (line ${error.line}, col ${error.col}).`);
-        } else {
-            vscode.window.showErrorMessage(`Sheafy: Error reading ${SHEAFY_TOML_FILENAME}: ${error.message}`);
-            console.error(`Sheafy TOML read/parse error:`, error);
-        }
+/** Forgets the cached sheafy.toml of the folder `rootUri`, or of every folder. */
+export function invalidateSheafyTomlCache(rootUri?: vscode.Uri): void {
+    if (rootUri === undefined) {
+        tomlCache.clear();
+    } else {
+        tomlCache.delete(rootUri.toString());
     }
+}
 
-    // 3. Merge and establish effective values
-    const effectiveBundleName = tomlConfig?.bundle_name || "project_bundle.md";
-    const effectiveWorkingDir = path.resolve(basePath, tomlConfig?.working_dir || ".");
+/** Watches every sheafy.toml in the workspace and invalidates its cached contents when it changes. */
+export function watchSheafyConfigFiles(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${SHEAFY_TOML_FILENAME}`);
+    const invalidate = (uri: vscode.Uri) => invalidateSheafyTomlCache(vscode.Uri.joinPath(uri, '..'));
+    return vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(invalidate),
+        watcher.onDidChange(invalidate),
+        watcher.onDidDelete(invalidate),
+        // A folder that is added again may have a different sheafy.toml by now.
+        vscode.workspace.onDidChangeWorkspaceFolders(() => invalidateSheafyTomlCache()),
+    );
+}
 
-    let effectiveUseGitignore = vscodeConfig.respectGitignore; // Default to VSCode setting
-    if (tomlConfig?.use_gitignore !== undefined) { // If sheafy.toml specifies it, it takes precedence
-        effectiveUseGitignore = tomlConfig.use_gitignore;
+// An unreadable sheafy.toml is reported, and the defaults are used as if it didn't exist.
+// Failed reads are not cached, so the error is shown again until the file is fixed. Neither are
+// folders outside the workspace, which the watcher doesn't see.
+function readSheafyTomlOrDefaults(rootUri: vscode.Uri, fileSystem: WorkspaceFileSystem): Promise<SheafyTomlDocument> {
+    const key = rootUri.toString();
+    const cached = tomlCache.get(key);
+    if (cached) {
+        return cached;
     }
+    const reading = readSheafyToml(uriToPath(rootUri), showConfigWarning, fileSystem).catch((error: any) => {
+        tomlCache.delete(key);
+        vscode.window.showErrorMessage(`Sheafy: ${error.message}`);
+        if (!(error instanceof SheafyConfigError)) {
+            console.error(`Sheafy TOML read/parse error:`, error);
+        }
+        return { sheafy: null, profiles: {} };
+    });
+    if (vscode.workspace.getWorkspaceFolder(rootUri)) {
+        tomlCache.set(key, reading);
+    }
+    return reading;
+}
 
-    const ignorePatternsRaw = tomlConfig?.ignore_patterns || "";
-    const effectiveIgnorePatternsArray = ignorePatternsRaw
-        .split('\n')
-        .map(p => p.trim())
-        .filter(p => p.length > 0 && !p.startsWith('#'));
-
+/**
+ * Lists the `[profiles.<name>]` tables defined in the sheafy.toml that applies to `resourceUri`.
+ */
+export async function listSheafyProfiles(resourceUri?: vscode.Uri): Promise<string[]> {
+    const { rootUri } = resolveRoot(resourceUri);
+    const document = await readSheafyTomlOrDefaults(rootUri, new WorkspaceFileSystem(rootUri));
+    return Object.keys(document.profiles);
+}
 
-    return {
-        tomlConfig,
-        vscodeSettings: vscodeConfig,
-        bundle_name: effectiveBundleName,
-        working_dir: effectiveWorkingDir,
-        use_gitignore: effectiveUseGitignore,
-        ignore_patterns_array: effectiveIgnorePatternsArray,
-        prologue: tomlConfig?.prologue || "",
-        epilogue: tomlConfig?.epilogue || "",
-        basePath: basePath,
-        exportFormatTemplate: vscodeConfig.exportFormatTemplate,
-        exportDestinations: vscodeConfig.exportDestinations.length > 0 ? vscodeConfig.exportDestinations : ['clipboard'], // Ensure at least one default
-        folderExportPathRelativeToClickedFolder: vscodeConfig.folderExportPathRelativeToClickedFolder // <--- 添加到返回对象
+/**
+ * Loads the effective configuration for `resourceUri`. `profileName` selects a
+ * `[profiles.<name>]` table; when omitted, the `sheafy.defaultProfile` setting is used,
+ * and `null` explicitly selects the plain `[sheafy]` table.
+ */
+export async function loadSheafyConfig(resourceUri?: vscode.Uri, profileName?: string | null): Promise<MergedSheafyConfig> {
+    const { rootUri, workspaceFolder } = resolveRoot(resourceUri);
+    const basePath = uriToPath(rootUri);
+    const fileSystem = new WorkspaceFileSystem(rootUri);
 
+    // 1. Load VSCode settings
+    const vsSettings = vscode.workspace.getConfiguration('sheafy', workspaceFolder?.uri);
+    const vscodeConfig: SheafyVSCodeSettings = {
+        respectGitignore: vsSettings.get<boolean>('respectGitignore', true),
+        defaultProfile: vsSettings.get<string>('defaultProfile', ''),
+        exportDestinations: vsSettings.get<ExportDestination[]>('exportDestinations', ['clipboard']),
+        exportFormatTemplate: vsSettings.get<string>('exportFormatTemplate', DEFAULT_EXPORT_FORMAT_TEMPLATE),
+        folderExportPathRelativeToClickedFolder: vsSettings.get<boolean>('folderExport.pathRelativeToClickedFolder', false) // <--- 读取新设置
     };
+
+    // 2. Load sheafy.toml, apply the selected profile and merge
+    const tomlDocument = await readSheafyTomlOrDefaults(rootUri, fileSystem);
+    return resolveSheafyConfig(basePath, workspaceFolder?.name ?? path.basename(basePath), vscodeConfig, tomlDocument, profileName, showConfigWarning, fileSystem);
 }
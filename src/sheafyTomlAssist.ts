@@ -0,0 +1,300 @@
+// src/sheafyTomlAssist.ts
+import { parse } from '@iarna/toml';
+import { describeTable, KeySchema, schemaForPath, SHEAFY_TOML_SCHEMA, validateSheafyDocument } from './configSchema';
+
+/** A key or table header in the text of a sheafy.toml. Lines and columns are 0-based. */
+export interface TomlKeyLocation {
+    path: Array<string | number>; // Like SchemaIssue.path; arrays of tables count their entries
+    kind: 'key' | 'table';
+    line: number;
+    column: number;
+    length: number;
+}
+
+export interface ConfigDiagnostic {
+    line: number; // 0-based
+    column: number;
+    endColumn: number;
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface ConfigCompletion {
+    label: string;
+    kind: 'key' | 'value' | 'table';
+    insertText: string; // Snippet syntax
+    detail?: string;
+    documentation?: string; // Markdown
+    replaceFrom: number; // Column where the completed text starts
+}
+
+export interface ConfigHover {
+    markdown: string;
+    line: number;
+    column: number;
+    endColumn: number;
+}
+
+const KEY_PART = String.raw`(?:[A-Za-z0-9_-]+|"(?:[^"\\]|\\.)*"|'[^']*')`;
+const DOTTED_KEY = new RegExp(String.raw`^(\s*)(${KEY_PART}(?:\s*\.\s*${KEY_PART})*)\s*=`);
+const TABLE_HEADER = new RegExp(String.raw`^(\s*)(\[\[?)\s*(${KEY_PART}(?:\s*\.\s*${KEY_PART})*)\s*\]\]?`);
+
+function splitDottedKey(key: string): string[] {
+    return (key.match(new RegExp(KEY_PART, 'g')) ?? []).map(part =>
+        part.startsWith('"') ? JSON.parse(part) : part.startsWith("'") ? part.slice(1, -1) : part);
+}
+
+// State of a value that continues on the next lines: open brackets and an unclosed multi-line string.
+interface ValueState {
+    depth: number;
+    multiline: '"""' | "'''" | null;
+}
+
+// Advances `state` over `text`, skipping strings and comments.
+function scanValue(text: string, state: ValueState): void {
+    let i = 0;
+    while (i < text.length) {
+        if (state.multiline) {
+            const end = text.indexOf(state.multiline, i);
+            if (end < 0) {
+                return;
+            }
+            i = end + 3;
+            state.multiline = null;
+            continue;
+        }
+        const rest = text.slice(i);
+        if (rest.startsWith('"""') || rest.startsWith("'''")) {
+            state.multiline = rest.slice(0, 3) as ValueState['multiline'];
+            i += 3;
+            continue;
+        }
+        const char = text[i];
+        if (char === '#') {
+            return;
+        }
+        if (char === '"' || char === "'") {
+            let j = i + 1;
+            while (j < text.length && text[j] !== char) {
+                j += char === '"' && text[j] === '\\' ? 2 : 1;
+            }
+            i = j + 1;
+            continue;
+        }
+        if (char === '[' || char === '{') {
+            state.depth++;
+        } else if (char === ']' || char === '}') {
+            state.depth = Math.max(0, state.depth - 1);
+        }
+        i++;
+    }
+}
+
+// The keys and headers of `text`, and the lines that continue a value of an earlier line.
+function scanToml(text: string): { locations: TomlKeyLocation[]; valueLines: Set<number> } {
+    const locations: TomlKeyLocation[] = [];
+    const valueLines = new Set<number>();
+    const arrayCounts = new Map<string, number>();
+    const state: ValueState = { depth: 0, multiline: null };
+    let table: Array<string | number> = [];
+    text.split(/\r?\n/).forEach((lineText, line) => {
+        if (state.multiline || state.depth > 0) {
+            valueLines.add(line);
+            scanValue(lineText, state); // Inside a value that started on an earlier line
+            return;
+        }
+        const header = lineText.match(TABLE_HEADER);
+        if (header) {
+            const keys = splitDottedKey(header[3]);
+            const column = header[1].length;
+            if (header[2] === '[[') {
+                const arrayKey = JSON.stringify(keys);
+                const index = arrayCounts.get(arrayKey) ?? 0;
+                arrayCounts.set(arrayKey, index + 1);
+                if (index === 0) {
+                    locations.push({ path: keys, kind: 'table', line, column, length: header[0].length - column });
+                }
+                table = [...keys, index];
+            } else {
+                table = keys;
+            }
+            locations.push({ path: table, kind: 'table', line, column, length: header[0].length - column });
+            return;
+        }
+        const key = lineText.match(DOTTED_KEY);
+        if (key) {
+            const column = key[1].length;
+            locations.push({ path: [...table, ...splitDottedKey(key[2])], kind: 'key', line, column, length: key[2].length });
+            scanValue(lineText.slice(key[0].length), state);
+        }
+    });
+    return { locations, valueLines };
+}
+
+/**
+ * Finds the table headers and keys of a sheafy.toml with their positions, without parsing the
+ * values. Works on invalid documents too, as far as the lines can be recognized.
+ */
+export function locateTomlKeys(text: string): TomlKeyLocation[] {
+    return scanToml(text).locations;
+}
+
+function samePath(a: Array<string | number>, b: Array<string | number>): boolean {
+    return a.length === b.length && a.every((key, i) => key === b[i]);
+}
+
+// The location of `path`, or of its closest ancestor that is written in the text.
+function findLocation(locations: TomlKeyLocation[], path: Array<string | number>): TomlKeyLocation | undefined {
+    for (let length = path.length; length > 0; length--) {
+        const prefix = path.slice(0, length);
+        const found = locations.find(location => samePath(location.path, prefix));
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Validates the text of a sheafy.toml: syntax errors, and the schema issues of
+ * validateSheafyDocument at the key they concern.
+ */
+export function checkSheafyTomlText(text: string): ConfigDiagnostic[] {
+    let document: { [key: string]: unknown };
+    try {
+        document = parse(text);
+    } catch (error: any) {
+        const line = typeof error.line === 'number' ? error.line : 0;
+        const column = typeof error.col === 'number' ? error.col : 0;
+        const message = String(error.message).split(/ at row \d+/)[0]; // The rest repeats the position
+        return [{ line, column, endColumn: column + 1, severity: 'error', message: `Invalid TOML: ${message}` }];
+    }
+    const locations = locateTomlKeys(text);
+    return validateSheafyDocument(document).map(issue => {
+        const location = findLocation(locations, issue.path);
+        return {
+            line: location?.line ?? 0,
+            column: location?.column ?? 0,
+            endColumn: location ? location.column + location.length : 1,
+            severity: issue.severity,
+            message: issue.message,
+        };
+    });
+}
+
+// The table that `line` belongs to: the last header above it.
+function tableAt(locations: TomlKeyLocation[], line: number): Array<string | number> {
+    const headers = locations.filter(location => location.kind === 'table' && location.line < line);
+    return headers.length > 0 ? headers[headers.length - 1].path : [];
+}
+
+function describeType(schema: KeySchema): string {
+    switch (schema.type) {
+        case 'size': return 'size';
+        case 'split': return 'size or token count';
+        case 'strings': return 'array of strings';
+        case 'string-or-strings': return 'string or array of strings';
+        case 'secret-patterns': return 'array of strings or tables';
+        case 'tables': return 'array of tables';
+        default: return schema.type;
+    }
+}
+
+function documentSchema(name: string, schema: KeySchema): string {
+    const lines = [`**${name}** (${describeType(schema)})`, '', schema.description];
+    if (schema.values) {
+        lines.push('', `Allowed: ${schema.values.map(value => `\`"${value}"\``).join(', ')}`);
+    }
+    if (schema.placeholders) {
+        lines.push('', `Placeholders: ${schema.placeholders.map(placeholder => `\`{${placeholder}}\``).join(', ')}`);
+    }
+    return lines.join('\n');
+}
+
+const TABLE_COMPLETIONS: Array<{ header: string; path: string[] }> = [
+    { header: '[sheafy]', path: ['sheafy'] },
+    { header: '[sheafy.transforms]', path: ['sheafy', 'transforms'] },
+    { header: '[sheafy.language_map]', path: ['sheafy', 'language_map'] },
+    { header: '[[sheafy.transform_rules]]', path: ['sheafy', 'transform_rules'] },
+    { header: '[[sheafy.template_rules]]', path: ['sheafy', 'template_rules'] },
+    { header: '[profiles.${1:name}]', path: ['profiles'] },
+];
+
+/**
+ * Completions at a position of a sheafy.toml: table headers after "[", the keys of the current
+ * table that are not set yet at the start of a line, and the allowed values after "key =".
+ */
+export function completeSheafyToml(text: string, line: number, character: number): ConfigCompletion[] {
+    const { locations, valueLines } = scanToml(text);
+    if (valueLines.has(line)) {
+        return []; // Inside a multi-line string or array
+    }
+    const prefix = (text.split(/\r?\n/)[line] ?? '').slice(0, character);
+
+    const header = prefix.match(/^(\s*)\[{1,2}[\w.-]*$/);
+    if (header) {
+        return TABLE_COMPLETIONS.map(({ header: headerText, path }) => ({
+            label: headerText.replace('${1:name}', '<name>'),
+            kind: 'table' as const,
+            insertText: headerText,
+            documentation: schemaForPath(path)?.description,
+            replaceFrom: header[1].length,
+        }));
+    }
+
+    const table = tableAt(locations, line);
+    const tableSchema = table.length > 0 ? schemaForPath(table) : undefined;
+
+    const keyPrefix = prefix.match(/^(\s*)[\w-]*$/);
+    if (keyPrefix) {
+        if (!tableSchema?.keys) {
+            return [];
+        }
+        const defined = new Set(locations
+            .filter(location => location.kind === 'key' && location.line !== line && location.path.length === table.length + 1 && samePath(location.path.slice(0, -1), table))
+            .map(location => location.path[table.length]));
+        return Object.entries(tableSchema.keys)
+            .filter(([key, schema]) => !defined.has(key) && schema.type !== 'table' && schema.type !== 'tables')
+            .map(([key, schema]) => ({
+                label: key,
+                kind: 'key' as const,
+                insertText: `${key} = ${schema.example ?? '""'}`,
+                detail: describeType(schema),
+                documentation: documentSchema(key, schema),
+                replaceFrom: keyPrefix[1].length,
+            }));
+    }
+
+    const valuePrefix = prefix.match(/^\s*([\w-]+)\s*=\s*(?:\[\s*(?:"[^"]*"\s*,\s*)*)?("?)[\w-]*$/);
+    const valueSchema = valuePrefix && tableSchema ? schemaForPath([...table, valuePrefix[1]]) : undefined;
+    if (valuePrefix && valueSchema?.values) {
+        const start = prefix.length - prefix.match(/"?[\w-]*$/)![0].length;
+        return valueSchema.values.map(value => ({
+            label: `"${value}"`,
+            kind: 'value' as const,
+            insertText: `"${value}"`,
+            replaceFrom: start,
+        }));
+    }
+    if (valuePrefix && valueSchema?.type === 'boolean') {
+        const start = prefix.length - prefix.match(/[\w-]*$/)![0].length;
+        return ['true', 'false'].map(value => ({ label: value, kind: 'value' as const, insertText: value, replaceFrom: start }));
+    }
+    return [];
+}
+
+/** The documentation of the key or table header at a position of a sheafy.toml. */
+export function hoverSheafyToml(text: string, line: number, character: number): ConfigHover | null {
+    const location = locateTomlKeys(text).find(candidate =>
+        candidate.line === line && character >= candidate.column && character <= candidate.column + candidate.length);
+    if (!location) {
+        return null;
+    }
+    const schema = schemaForPath(location.path);
+    if (!schema || schema === SHEAFY_TOML_SCHEMA) {
+        return null;
+    }
+    const lastKey = [...location.path].reverse().find(key => typeof key === 'string') as string;
+    const name = location.kind === 'table' ? describeTable(location.path) : lastKey;
+    return { markdown: documentSchema(name, schema), line, column: location.column, endColumn: location.column + location.length };
+}
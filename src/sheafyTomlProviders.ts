@@ -0,0 +1,113 @@
+// src/sheafyTomlProviders.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SHEAFY_TOML_FILENAME } from './config';
+import { checkSheafyTomlText, completeSheafyToml, hoverSheafyToml } from './sheafyTomlAssist';
+
+export const SHEAFY_TOML_SELECTOR: vscode.DocumentSelector = { pattern: `**/${SHEAFY_TOML_FILENAME}` };
+
+// Files of other schemes only count inside a workspace folder, which leaves out e.g. the
+// git: versions shown in diff editors.
+function isSheafyToml(uri: vscode.Uri): boolean {
+    return path.posix.basename(uri.path) === SHEAFY_TOML_FILENAME && (uri.scheme === 'file' || vscode.workspace.getWorkspaceFolder(uri) !== undefined);
+}
+
+/**
+ * Shows the problems of every sheafy.toml in the Problems panel: open documents as they are
+ * edited, and the files on disk otherwise.
+ */
+export class SheafyTomlDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('sheafy');
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${SHEAFY_TOML_FILENAME}`);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.checkFile(uri)),
+            watcher.onDidChange(uri => this.checkFile(uri)),
+            watcher.onDidDelete(uri => this.collection.delete(uri)),
+            vscode.workspace.onDidOpenTextDocument(document => this.checkDocument(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.checkDocument(event.document)),
+            // Unsaved edits are gone once the document is closed; show the problems of the file again.
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (isSheafyToml(document.uri)) {
+                    this.checkFile(document.uri);
+                }
+            }),
+        );
+        vscode.workspace.textDocuments.forEach(document => this.checkDocument(document));
+        vscode.workspace.findFiles(`**/${SHEAFY_TOML_FILENAME}`, '**/node_modules/**').then(
+            uris => uris.forEach(uri => this.checkFile(uri)),
+            error => console.warn(`Sheafy: Could not look for ${SHEAFY_TOML_FILENAME} files: ${error.message}`));
+    }
+
+    private checkDocument(document: vscode.TextDocument): void {
+        if (isSheafyToml(document.uri)) {
+            this.publish(document.uri, document.getText());
+        }
+    }
+
+    private async checkFile(uri: vscode.Uri): Promise<void> {
+        // An open document may have unsaved edits; its diagnostics come from the editor.
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        if (openDocument && !openDocument.isClosed) {
+            this.checkDocument(openDocument);
+            return;
+        }
+        try {
+            this.publish(uri, Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'));
+        } catch {
+            this.collection.delete(uri); // Deleted in the meantime
+        }
+    }
+
+    private publish(uri: vscode.Uri, text: string): void {
+        this.collection.set(uri, checkSheafyTomlText(text).map(problem => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(problem.line, problem.column, problem.line, problem.endColumn),
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'sheafy';
+            return diagnostic;
+        }));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.collection.dispose();
+    }
+}
+
+const COMPLETION_KINDS = {
+    key: vscode.CompletionItemKind.Property,
+    value: vscode.CompletionItemKind.EnumMember,
+    table: vscode.CompletionItemKind.Module,
+};
+
+/** Completes table headers, keys and allowed values in sheafy.toml. */
+export class SheafyTomlCompletionProvider implements vscode.CompletionItemProvider {
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+        return completeSheafyToml(document.getText(), position.line, position.character).map(completion => {
+            const item = new vscode.CompletionItem(completion.label, COMPLETION_KINDS[completion.kind]);
+            item.insertText = new vscode.SnippetString(completion.insertText);
+            item.range = new vscode.Range(position.line, completion.replaceFrom, position.line, position.character);
+            item.detail = completion.detail;
+            if (completion.documentation) {
+                item.documentation = new vscode.MarkdownString(completion.documentation);
+            }
+            return item;
+        });
+    }
+}
+
+/** Shows the documentation of keys and tables in sheafy.toml. */
+export class SheafyTomlHoverProvider implements vscode.HoverProvider {
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const hover = hoverSheafyToml(document.getText(), position.line, position.character);
+        if (!hover) {
+            return undefined;
+        }
+        return new vscode.Hover(new vscode.MarkdownString(hover.markdown), new vscode.Range(hover.line, hover.column, hover.line, hover.endColumn));
+    }
+}
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { applyBudget, TRUNCATION_MARKER } from '../budget';
+import { MergedSheafyConfig } from '../config';
+import { FileSection } from '../types';
+import { byteLength, countLines, estimateTokens, truncateToLimits } from '../utils';
+
+suite('Budget Test Suite', () => {
+	type BudgetConfig = Pick<MergedSheafyConfig, 'max_tokens' | 'max_bytes' | 'budget_priority' | 'budget_action' | 'priority_patterns_array'>;
+
+	const format = (section: FileSection, content: string) => `## ${section.displayPath}\n${content}`;
+	const sectionOf = (relPath: string, content: string, mtimeMs = 0): FileSection => {
+		const section: FileSection = {
+			filePath: `/project/${relPath}`, relPath, displayPath: relPath, lang: 'plaintext',
+			content, contentBytes: byteLength(content), contentLines: countLines(content),
+			fileSize: byteLength(content), formatted: '', bytes: 0, tokens: 0, mtimeMs,
+		};
+		section.formatted = format(section, content);
+		section.bytes = byteLength(section.formatted);
+		section.tokens = estimateTokens(section.formatted);
+		return section;
+	};
+	const words = (count: number) => 'word '.repeat(count).trim(); // One token per word
+	const budget = (config: Partial<BudgetConfig>): BudgetConfig => ({
+		max_tokens: null, max_bytes: null, budget_priority: 'order', budget_action: 'drop', priority_patterns_array: [], ...config,
+	});
+	const kept = (sections: FileSection[], config: Partial<BudgetConfig>) =>
+		applyBudget(sections, '', '\n\n', budget(config), format).sections.map(section => section.relPath);
+
+	test('estimates a token per short word and symbol, more for long words', () => {
+		assert.strictEqual(estimateTokens(''), 0);
+		assert.strictEqual(estimateTokens('  \n\t'), 0);
+		assert.strictEqual(estimateTokens('let x = 1;'), 5);
+		assert.strictEqual(estimateTokens('internationalization'), 5);
+		assert.strictEqual(estimateTokens('é\u00a0漢'), 2); // Symbols of any script count, and any whitespace separates
+	});
+
+	test('truncates at a line boundary within both limits', () => {
+		assert.strictEqual(truncateToLimits('one\ntwo\nthree', 100, 100), 'one\ntwo\nthree');
+		assert.strictEqual(truncateToLimits('one\ntwo\nthree', 100, 9), 'one\ntwo');
+		assert.strictEqual(truncateToLimits('one two three four', 2, 100), 'one two ');
+	});
+
+	test('keeps sections in order while they fit and drops the rest', () => {
+		const sections = [sectionOf('a.txt', words(40)), sectionOf('b.txt', words(40)), sectionOf('c.txt', words(10))];
+		const result = applyBudget(sections, '', '\n\n', budget({ max_tokens: 70 }), format);
+		assert.deepStrictEqual(result.sections.map(section => section.relPath), ['a.txt', 'c.txt']);
+		assert.deepStrictEqual(result.report.cutFiles, [{ relPath: 'b.txt', action: 'dropped', tokens: sections[1].tokens }]);
+		assert.strictEqual(result.report.totalTokens, sections[0].tokens + sections[2].tokens);
+		assert.strictEqual(result.report.totalBytes, sections[0].bytes + 2 + sections[2].bytes);
+	});
+
+	test('counts the overhead and the byte limit', () => {
+		const sections = [sectionOf('a.txt', words(10)), sectionOf('b.txt', words(10))];
+		assert.deepStrictEqual(kept(sections, { max_bytes: sections[0].bytes + sections[1].bytes + 4 }), ['a.txt', 'b.txt']);
+		assert.deepStrictEqual(kept(sections, { max_bytes: sections[0].bytes + sections[1].bytes }), ['a.txt']);
+		const withOverhead = applyBudget(sections, words(15), '\n\n', budget({ max_tokens: 30 }), format);
+		assert.deepStrictEqual(withOverhead.sections.map(section => section.relPath), ['a.txt']);
+	});
+
+	test('fills the budget by priority patterns, then by budget_priority', () => {
+		const sections = [
+			sectionOf('docs/guide.md', words(30), 3),
+			sectionOf('src/big.ts', words(50), 1),
+			sectionOf('src/small.ts', words(20), 2),
+		];
+		assert.deepStrictEqual(kept(sections, { max_tokens: 70 }), ['docs/guide.md', 'src/small.ts']); // src/big.ts doesn't fit after the guide
+		assert.deepStrictEqual(kept(sections, { max_tokens: 70, priority_patterns_array: ['src/'] }), ['src/big.ts']);
+		assert.deepStrictEqual(kept(sections, { max_tokens: 70, budget_priority: 'smallest_first' }), ['docs/guide.md', 'src/small.ts']);
+		assert.deepStrictEqual(kept(sections, { max_tokens: 70, budget_priority: 'most_recent', priority_patterns_array: ['src/'] }), ['docs/guide.md', 'src/small.ts']);
+	});
+
+	test('truncates the section that no longer fits when budget_action is "truncate"', () => {
+		const sections = [sectionOf('a.txt', words(40)), sectionOf('b.txt', Array.from({ length: 40 }, (_, i) => `line ${i}`).join('\n'))];
+		const result = applyBudget(sections, '', '\n\n', budget({ max_tokens: 120, budget_action: 'truncate' }), format);
+		const truncated = result.sections[1];
+		assert.ok(truncated.content!.endsWith(TRUNCATION_MARKER));
+		assert.ok(truncated.content!.startsWith('line 0\nline 1\n'));
+		assert.strictEqual(truncated.formatted, format(truncated, truncated.content!));
+		assert.strictEqual(truncated.contentLines, countLines(truncated.content!));
+		assert.ok(result.report.totalTokens <= 120);
+		assert.deepStrictEqual(result.report.cutFiles, [{ relPath: 'b.txt', action: 'truncated', tokens: sections[1].tokens }]);
+	});
+
+	test('drops a section without room for a truncated stub, but not a note that fits', () => {
+		const note = { ...sectionOf('logo.png', ''), note: 'logo.png (binary, skipped)' };
+		const big = sectionOf('b.txt', words(100));
+		const result = applyBudget([sectionOf('a.txt', words(90)), big, note], '', '\n\n', budget({ max_tokens: 100, budget_action: 'truncate' }), format);
+		assert.deepStrictEqual(result.report.cutFiles.map(cut => `${cut.relPath} ${cut.action}`), ['b.txt dropped']);
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { getFormatter } from '../formats';
+import { DEFAULT_EXPORT_FORMAT_TEMPLATE } from '../config';
+import { isLineRangePath, parseBundle, resolveBundlePath } from '../bundleParser';
+
+suite('Bundle Parser Test Suite', () => {
+	const files = [
+		{ path: 'src/app.ts', content: 'const fence = "```";\n' },
+		{ path: 'docs/a&b.md', content: 'Text with ]]> and <tags>\n' },
+	];
+
+	for (const format of ['markdown', 'xml', 'json'] as const) {
+		test(`reads back files from the ${format} format`, () => {
+			const formatter = getFormatter(format, DEFAULT_EXPORT_FORMAT_TEMPLATE);
+			const bundle = formatter.renderBundle({
+				prologue: 'Intro',
+				header: '',
+				sections: files.map(file => formatter.renderSection({ displayPath: file.path, lang: 'plaintext', content: file.content })),
+				epilogue: '',
+			}).join('');
+			assert.deepStrictEqual(parseBundle(bundle), files);
+		});
+	}
+
+	for (const format of ['markdown', 'xml', 'json'] as const) {
+		test(`skips the header, notes and diffs of the ${format} format`, () => {
+			const formatter = getFormatter(format, DEFAULT_EXPORT_FORMAT_TEMPLATE);
+			const bundle = formatter.renderBundle({
+				partHeader: formatter.renderPartHeader(1, 2),
+				prologue: '',
+				header: formatter.renderHeader('project/\n└── src/\n    └── app.ts', ['src/app.ts', 'logo.png']),
+				sections: [
+					formatter.renderSection({ displayPath: 'src/app.ts', lang: 'typescript', content: 'const b = 2;\n', diff: '-const a = 1;\n+const b = 2;' }),
+					formatter.renderSection({ displayPath: 'logo.png', lang: 'plaintext', content: '', note: '[binary, 1 KB, skipped]' }),
+				],
+				epilogue: 'Bye',
+			}).join('');
+			assert.deepStrictEqual(parseBundle(bundle), [{ path: 'src/app.ts', content: 'const b = 2;\n' }]);
+		});
+	}
+
+	test('reads tilde fences, CRLF line ends and backticked headings, and drops a cut-off last file', () => {
+		const bundle = '### `a.ts`\r\n\r\n~~~ts\r\nconst a = 1;\r\n~~~\r\n\r\n### b.ts\r\n\r\n```ts\r\nconst b =';
+		assert.deepStrictEqual(parseBundle(bundle), [{ path: 'a.ts', content: 'const a = 1;\n' }]);
+	});
+
+	test('ignores headings without a fenced block', () => {
+		assert.deepStrictEqual(parseBundle('### skipped.png\n\n[binary, 1 KB, skipped]\n\n### a.ts\n\n```ts\nx\n```\n'), [{ path: 'a.ts', content: 'x\n' }]);
+	});
+
+	test('recognizes line-range paths', () => {
+		assert.ok(isLineRangePath('src/app.ts:10-24'));
+		assert.ok(!isLineRangePath('src/app.ts'));
+	});
+
+	test('resolves only paths inside the root', () => {
+		const root = path.resolve('/workspace');
+		assert.strictEqual(resolveBundlePath(root, 'src/app.ts'), path.join(root, 'src', 'app.ts'));
+		assert.strictEqual(resolveBundlePath(root, '../etc/passwd'), null);
+		assert.strictEqual(resolveBundlePath(root, '/etc/passwd'), null);
+		assert.strictEqual(resolveBundlePath(root, 'C:/Windows/x'), null);
+		assert.strictEqual(resolveBundlePath(root, '.git/config'), null);
+	});
+});
@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import {
+	DEFAULT_VSCODE_SETTINGS,
+	readSheafyToml,
+	resolveSheafyConfig,
+	SheafyConfigError,
+	SheafyTomlConfig,
+	SheafyTomlDocument,
+} from '../config';
+
+suite('Config Test Suite', () => {
+	const basePath = path.join(os.tmpdir(), 'project');
+	let warnings: string[];
+	const warn = (message: string) => warnings.push(message);
+	const resolve = (sheafy: SheafyTomlConfig | null, profiles: SheafyTomlDocument['profiles'] = {}, profile?: string | null) =>
+		resolveSheafyConfig(basePath, 'project', DEFAULT_VSCODE_SETTINGS, { sheafy, profiles }, profile, warn);
+
+	setup(() => {
+		warnings = [];
+	});
+
+	test('uses the defaults without a sheafy.toml', () => {
+		const config = resolve(null);
+		assert.strictEqual(config.bundle_name, 'project_bundle.md');
+		assert.strictEqual(config.working_dir, basePath);
+		assert.strictEqual(config.use_gitignore, true);
+		assert.strictEqual(config.format, 'markdown');
+		assert.strictEqual(config.max_file_size, 1024 * 1024);
+		assert.strictEqual(config.secret_mode, 'redact');
+		assert.strictEqual(config.profile, null);
+		assert.deepStrictEqual(warnings, []);
+	});
+
+	test('parses pattern lists, extensions and sizes', () => {
+		const config = resolve({
+			ignore_patterns: 'dist/\n# comment\n\n*.log\n',
+			include_extensions: ['.TS', 'md'],
+			exclude_extensions: '*.lock, d.ts' as any, // A string is accepted as well
+			max_file_size: '512KB',
+		});
+		assert.deepStrictEqual(config.ignore_patterns_array, ['dist/', '*.log']);
+		assert.deepStrictEqual(config.include_extensions, ['ts', 'md']);
+		assert.deepStrictEqual(config.exclude_extensions, ['lock', 'd.ts']);
+		assert.strictEqual(config.max_file_size, 512 * 1024);
+	});
+
+	test('parses split_at as a size or a token count', () => {
+		assert.deepStrictEqual(resolve({ split_at: '200KB' }).split_at, { unit: 'bytes', limit: 200 * 1024 });
+		assert.deepStrictEqual(resolve({ split_at: '50000 tokens' }).split_at, { unit: 'tokens', limit: 50000 });
+		assert.strictEqual(resolve({ split_at: 'half' }).split_at, null);
+		assert.strictEqual(warnings.length, 1);
+	});
+
+	test('a profile overrides keys of [sheafy]', () => {
+		const config = resolve({ bundle_name: 'all.md', max_tokens: 1000 }, { docs: { max_tokens: 50 } }, 'docs');
+		assert.strictEqual(config.profile, 'docs');
+		assert.strictEqual(config.bundle_name, 'all.md');
+		assert.strictEqual(config.max_tokens, 50);
+	});
+
+	test('a profile turns an inherited budget off with 0', () => {
+		const config = resolve({ max_tokens: 1000, max_bytes: 5000 }, { full: { max_tokens: 0, max_bytes: 0 } }, 'full');
+		assert.strictEqual(config.max_tokens, null);
+		assert.strictEqual(config.max_bytes, null);
+		assert.deepStrictEqual(warnings, []);
+	});
+
+	test('rejects unknown profiles', () => {
+		assert.throws(() => resolve({}, {}, 'missing'), /Profile 'missing' is not defined/);
+	});
+
+	test('applies the default profile unless a profile is chosen or turned off', () => {
+		const settings = { ...DEFAULT_VSCODE_SETTINGS, defaultProfile: 'docs' };
+		const document: SheafyTomlDocument = { sheafy: { max_tokens: 1000 }, profiles: { docs: { max_tokens: 50 }, code: { max_tokens: 500 } } };
+		const resolveWith = (profile?: string | null) => resolveSheafyConfig(basePath, 'project', settings, document, profile, warn);
+		assert.strictEqual(resolveWith().profile, 'docs');
+		assert.strictEqual(resolveWith().max_tokens, 50);
+		assert.strictEqual(resolveWith('code').max_tokens, 500);
+		assert.strictEqual(resolveWith(null).profile, null);
+		assert.strictEqual(resolveWith(null).max_tokens, 1000);
+		assert.deepStrictEqual(warnings, []);
+	});
+
+	test('warns about an unknown default profile and uses [sheafy]', () => {
+		const settings = { ...DEFAULT_VSCODE_SETTINGS, defaultProfile: 'missing' };
+		const config = resolveSheafyConfig(basePath, 'project', settings, { sheafy: { max_tokens: 1000 }, profiles: {} }, undefined, warn);
+		assert.strictEqual(config.profile, null);
+		assert.strictEqual(config.max_tokens, 1000);
+		assert.deepStrictEqual(warnings, ["Default profile 'missing' is not defined in sheafy.toml. Using [sheafy]."]);
+	});
+
+	test('applies a profile without a [sheafy] table', () => {
+		const config = resolve(null, { docs: { include_extensions: ['md'] } }, 'docs');
+		assert.deepStrictEqual(config.include_extensions, ['md']);
+		assert.strictEqual(config.bundle_name, 'project_bundle.md');
+	});
+
+	test('warns about invalid values and falls back to the defaults', () => {
+		const config = resolve({
+			max_tokens: -5,
+			format: 'html' as any,
+			secret_mode: 'loud' as any,
+			transforms: { line_numbers: 'yes' as any, head_lines: 10 },
+		});
+		assert.strictEqual(config.max_tokens, null);
+		assert.strictEqual(config.format, 'markdown');
+		assert.strictEqual(config.secret_mode, 'redact');
+		assert.strictEqual(config.transforms.line_numbers, false);
+		assert.strictEqual(config.transforms.head_lines, 10);
+		assert.strictEqual(warnings.length, 4);
+	});
+
+	test('warns about unknown budget priorities and actions', () => {
+		const config = resolve({ budget_priority: 'largest_first' as any, budget_action: 'cut' as any });
+		assert.strictEqual(config.budget_priority, 'order');
+		assert.strictEqual(config.budget_action, 'drop');
+		assert.deepStrictEqual(warnings, [
+			"Unknown budget_priority 'largest_first' in sheafy.toml. Expected one of order, smallest_first, most_recent.",
+			"Unknown budget_action 'cut' in sheafy.toml. Expected one of drop, truncate.",
+		]);
+		assert.strictEqual(resolve({ budget_priority: 'most_recent', budget_action: 'truncate' }).budget_action, 'truncate');
+	});
+
+	test('warns about an unknown git_diff mode', () => {
+		assert.strictEqual(resolve({ git_diff: 'inline' as any }).git_diff, 'none');
+		assert.deepStrictEqual(warnings, ["Unknown git_diff 'inline' in sheafy.toml. Expected one of none, append, only."]);
+		assert.strictEqual(resolve({ git_diff: 'only' }).git_diff, 'only');
+	});
+
+	test('parses secret detectors and patterns', () => {
+		const config = resolve({ secret_detectors: ['aws', 'pem'], secret_patterns: ['token_[a-z]+', { kind: 'password', pattern: 'pw=(\\S+)' }, { pattern: '(' }] });
+		assert.deepStrictEqual(config.secret_detectors, ['aws', 'pem']);
+		assert.deepStrictEqual(config.secret_patterns, [{ kind: 'custom', pattern: 'token_[a-z]+' }, { kind: 'password', pattern: 'pw=(\\S+)' }]);
+		assert.strictEqual(warnings.length, 1);
+		assert.match(warnings[0], /^Invalid regular expression in 'secret_patterns'/);
+		assert.strictEqual(resolve({ secret_detectors: ['aws', 'passwords'] as any }).secret_detectors.length, 5);
+		assert.strictEqual(warnings.length, 2);
+	});
+
+	test('parses transform rules', () => {
+		const config = resolve({ transform_rules: [{ pattern: 'tests/**\n*.spec.ts', head_lines: 0, strip_comments: true }, { head_lines: 5 } as any] });
+		assert.deepStrictEqual(config.transform_rules, [{ patterns: ['tests/**', '*.spec.ts'], settings: { head_lines: null, strip_comments: true } }]);
+		assert.strictEqual(warnings.length, 1);
+	});
+
+	test('parses template rules and the language map', () => {
+		const config = resolve({
+			template_rules: [{ pattern: '*.md', template: '{content}' }, { language: ['python', 'ruby'], template: '# {filename}\n{content}' }, { template: '{content}' } as any],
+			language_map: { '.MDX': 'markdown', Jenkinsfile: 'groovy', bad: 1 as any },
+		});
+		assert.deepStrictEqual(config.template_rules, [
+			{ patterns: ['*.md'], languages: [], template: '{content}' },
+			{ patterns: [], languages: ['python', 'ruby'], template: '# {filename}\n{content}' },
+		]);
+		assert.deepStrictEqual(config.language_map, { mdx: 'markdown', jenkinsfile: 'groovy' });
+		assert.strictEqual(warnings.length, 2);
+	});
+
+	test('rejects templates with unknown placeholders', () => {
+		assert.throws(() => resolve({ format: 'custom', export_format_template: '{relpath} {git_last_commit} {relpth}' }),
+			(error: Error) => error instanceof SheafyConfigError && /Unknown placeholder \{relpth\} in 'export_format_template'/.test(error.message));
+		assert.throws(() => resolve({ template_rules: [{ pattern: '*.md', template: '{content} {foo} {bar}' }] }),
+			(error: Error) => error instanceof SheafyConfigError && /Unknown placeholders \{foo\}, \{bar\} in the template rule for '\*\.md'/.test(error.message));
+		assert.throws(() => resolve({ skipped_file_template: '{relpath} ({lines})' }), SheafyConfigError);
+		// The template is not used by other formats, so it is not checked.
+		assert.doesNotThrow(() => resolve({ format: 'markdown', export_format_template: '{relpth}' }));
+	});
+
+	suite('readSheafyToml', () => {
+		let dir: string;
+
+		setup(async () => {
+			dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'sheafy-config-'));
+		});
+
+		teardown(async () => {
+			await fsPromises.rm(dir, { recursive: true, force: true });
+		});
+
+		test('returns an empty document if there is no sheafy.toml', async () => {
+			assert.deepStrictEqual(await readSheafyToml(dir, warn), { sheafy: null, profiles: {} });
+		});
+
+		test('reads [sheafy] and [profiles.<name>] tables', async () => {
+			await fsPromises.writeFile(path.join(dir, 'sheafy.toml'), '[sheafy]\nbundle_name = "b.md"\n\n[profiles.docs]\ninclude_extensions = ["md"]\n');
+			assert.deepStrictEqual(await readSheafyToml(dir, warn), {
+				sheafy: { bundle_name: 'b.md' },
+				profiles: { docs: { include_extensions: ['md'] } },
+			});
+		});
+
+		test('drops values of the wrong type with a warning', async () => {
+			await fsPromises.writeFile(path.join(dir, 'sheafy.toml'), '[sheafy]\nuse_gitignore = "false"\nbundle_nam = "b.md"\n\n[sheafy.transforms]\nhead_lines = "10"\n');
+			assert.deepStrictEqual(await readSheafyToml(dir, warn), {
+				sheafy: { bundle_nam: 'b.md', transforms: {} },
+				profiles: {},
+			});
+			assert.deepStrictEqual(warnings, [
+				`[sheafy] in sheafy.toml: 'use_gitignore' must be true or false (without quotes), not the string "false". Ignoring it.`,
+				`[sheafy.transforms] in sheafy.toml: 'head_lines' must be a non-negative integer, not the string "10". Ignoring it.`,
+			]);
+		});
+
+		test('throws a SheafyConfigError for invalid TOML', async () => {
+			await fsPromises.writeFile(path.join(dir, 'sheafy.toml'), '[sheafy\n');
+			await assert.rejects(readSheafyToml(dir, warn), (error: Error) => error instanceof SheafyConfigError && /Error parsing sheafy\.toml/.test(error.message));
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { validateSheafyDocument } from '../configSchema';
+import { checkSheafyTomlText, completeSheafyToml, hoverSheafyToml, locateTomlKeys } from '../sheafyTomlAssist';
+
+suite('Config Schema Test Suite', () => {
+	test('reports unknown keys with suggestions and values of the wrong type', () => {
+		const issues = validateSheafyDocument({
+			sheafy: { ignore_pattern: 'dist/', use_gitignore: 'false', format: 'html', transforms: { head_lines: -1 } },
+			profiles: { docs: { max_tokens: -1 } },
+			bundle_name: 'b.md',
+		});
+		assert.deepStrictEqual(issues.map(issue => [issue.path.join('.'), issue.severity, issue.ignored]), [
+			['sheafy.ignore_pattern', 'warning', false],
+			['sheafy.use_gitignore', 'error', true],
+			['sheafy.format', 'error', true],
+			['sheafy.transforms.head_lines', 'error', true],
+			['profiles.docs.max_tokens', 'error', true],
+			['bundle_name', 'warning', false],
+		]);
+		assert.match(issues[0].message, /Did you mean 'ignore_patterns'\?/);
+		assert.match(issues[1].message, /'use_gitignore' must be true or false \(without quotes\), not the string "false"/);
+		assert.match(issues[5].message, /outside the \[sheafy\] table/);
+	});
+
+	test('checks rules, secret patterns and template placeholders', () => {
+		const issues = validateSheafyDocument({
+			sheafy: {
+				transform_rules: [{ head_lines: 5 }],
+				template_rules: [{ pattern: '*.md', template: '{content} {relpth}' }],
+				secret_patterns: ['(unclosed'],
+				language_map: { mdx: 'markdown' },
+			},
+		});
+		assert.deepStrictEqual(issues.map(issue => issue.path.join('.')), [
+			'sheafy.transform_rules.0',
+			'sheafy.template_rules.0.template',
+			'sheafy.secret_patterns.0',
+		]);
+		assert.ok(issues.every(issue => issue.severity === 'error' && !issue.ignored));
+		assert.match(issues[1].message, /Unknown placeholder \{relpth\}/);
+	});
+
+	test('locates keys and headers, skipping multi-line values', () => {
+		const text = '[sheafy]\nignore_patterns = """\nnot_a_key = 1\n"""\n[[sheafy.transform_rules]]\npattern = "a"\n[[sheafy.transform_rules]]\n  "head_lines" = 3\n';
+		assert.deepStrictEqual(locateTomlKeys(text).map(location => [location.path.join('.'), location.line, location.column]), [
+			['sheafy', 0, 0],
+			['sheafy.ignore_patterns', 1, 0],
+			['sheafy.transform_rules', 4, 0],
+			['sheafy.transform_rules.0', 4, 0],
+			['sheafy.transform_rules.0.pattern', 5, 0],
+			['sheafy.transform_rules.1', 6, 0],
+			['sheafy.transform_rules.1.head_lines', 7, 2],
+		]);
+	});
+
+	test('reports problems at their line and column', () => {
+		assert.deepStrictEqual(checkSheafyTomlText('[sheafy]\n  max_token = 5\nformat = 1\n'), [
+			{ line: 1, column: 2, endColumn: 11, severity: 'warning', message: "Unknown key 'max_token' in [sheafy]. Did you mean 'max_tokens'?" },
+			{ line: 2, column: 0, endColumn: 6, severity: 'error', message: "'format' must be a string, not number 1." },
+		]);
+		const [syntaxError] = checkSheafyTomlText('[sheafy]\nbundle_name = \n');
+		assert.strictEqual(syntaxError.line, 1);
+		assert.strictEqual(syntaxError.severity, 'error');
+		assert.match(syntaxError.message, /^Invalid TOML: /);
+		assert.doesNotMatch(syntaxError.message, /at row/);
+	});
+
+	test('completes missing keys, allowed values and table headers', () => {
+		const text = '[sheafy]\nformat = "xml"\n\n[sheafy.transforms]\nline_numbers = true\n';
+		const keys = completeSheafyToml(text, 2, 0).map(completion => completion.label);
+		assert.ok(keys.includes('bundle_name'));
+		assert.ok(!keys.includes('format')); // Already set
+		assert.ok(!keys.includes('transforms')); // Tables are completed as headers
+		assert.deepStrictEqual(completeSheafyToml(text, 5, 0).map(completion => completion.label),
+			['strip_comments', 'strip_license_header', 'collapse_blank_lines', 'head_lines', 'tail_lines']);
+
+		const values = completeSheafyToml('[sheafy]\nsecret_mode = "re', 1, 17);
+		assert.deepStrictEqual(values.map(completion => completion.insertText), ['"redact"', '"block"', '"off"']);
+		assert.strictEqual(values[0].replaceFrom, 14);
+
+		assert.ok(completeSheafyToml('[sh', 0, 3).some(completion => completion.insertText === '[[sheafy.template_rules]]'));
+		assert.deepStrictEqual(completeSheafyToml('[sheafy]\nprologue = """\n', 2, 0), []);
+	});
+
+	test('shows the documentation of keys and tables on hover', () => {
+		const text = '[profiles.docs]\nbudget_action = "drop"\n';
+		const hover = hoverSheafyToml(text, 1, 3);
+		assert.ok(hover);
+		assert.match(hover.markdown, /^\*\*budget_action\*\* \(string\)/);
+		assert.match(hover.markdown, /Allowed: `"drop"`, `"truncate"`/);
+		assert.deepStrictEqual([hover.column, hover.endColumn], [0, 13]);
+		assert.match(hoverSheafyToml(text, 0, 5)!.markdown, /\*\*\[profiles\.docs\]\*\*/);
+		assert.strictEqual(hoverSheafyToml(text, 1, 20), null);
+	});
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { resolveDependencies } from '../dependencies';
+
+suite('Dependencies Test Suite', () => {
+	let root: string;
+
+	const write = async (relPath: string, content: string) => {
+		await fsPromises.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+		await fsPromises.writeFile(path.join(root, relPath), content);
+	};
+	const resolve = async (entry: string, depth = 3) => {
+		const graph = await resolveDependencies([path.join(root, entry)], root, depth);
+		const rel = (filePath: string) => path.relative(root, filePath).replace(/\\/g, '/');
+		return { files: graph.files.map(rel), edges: graph.edges.map(edge => `${rel(edge.from)} -> ${rel(edge.to)}`) };
+	};
+
+	setup(async () => {
+		root = await fsPromises.realpath(await fsPromises.mkdtemp(path.join(os.tmpdir(), 'sheafy-deps-')));
+	});
+
+	teardown(async () => {
+		await fsPromises.rm(root, { recursive: true, force: true });
+	});
+
+	test('follows relative imports and requires of TS/JS files', async () => {
+		await write('src/main.ts', [
+			"import { a } from './a';",
+			"import type { B } from './lib/b.js';",
+			"export * from './lib';",
+			"const c = require('../tools/c');",
+			"import('./lazy').then(() => undefined);",
+			"import * as fs from 'fs';",
+			"// import { old } from './old';",
+		].join('\n'));
+		await write('src/a.ts', 'export const a = 1;\n');
+		await write('src/lib/b.ts', 'export type B = string;\n');
+		await write('src/lib/index.ts', 'export {};\n');
+		await write('src/lazy.tsx', 'export default 1;\n');
+		await write('src/old.ts', 'export const old = 1;\n');
+		await write('tools/c.js', 'module.exports = 1;\n');
+
+		const { files, edges } = await resolve('src/main.ts');
+		assert.deepStrictEqual(files, ['src/main.ts', 'src/a.ts', 'src/lib/b.ts', 'src/lib/index.ts', 'tools/c.js', 'src/lazy.tsx']);
+		assert.strictEqual(edges.length, 5);
+	});
+
+	test('resolves tsconfig paths and baseUrl', async () => {
+		await write('tsconfig.base.json', '{ "compilerOptions": { "baseUrl": "src" } }\n');
+		await write('tsconfig.json', [
+			'{',
+			'  // Comments and trailing commas are allowed',
+			'  "extends": "./tsconfig.base.json",',
+			'  "compilerOptions": {',
+			'    "paths": { "@/*": ["*"], "@shared/*": ["../shared/*"], },',
+			'  },',
+			'}',
+		].join('\n'));
+		await write('src/app.ts', "import { x } from '@/feature/x';\nimport { y } from '@shared/y';\nimport { z } from 'util/z';\n");
+		await write('src/feature/x.ts', 'export const x = 1;\n');
+		await write('shared/y.ts', 'export const y = 1;\n');
+		await write('src/util/z.ts', 'export const z = 1;\n');
+
+		const { files } = await resolve('src/app.ts');
+		assert.deepStrictEqual(files, ['src/app.ts', 'src/feature/x.ts', 'shared/y.ts', 'src/util/z.ts']);
+	});
+
+	test('follows Python absolute and relative imports', async () => {
+		await write('pkg/__init__.py', '');
+		await write('pkg/main.py', 'import os\nimport pkg.models as models\nfrom . import helpers\nfrom .sub.tool import (\n    run,\n)\n');
+		await write('pkg/models.py', 'from pkg.sub import tool\n');
+		await write('pkg/helpers.py', '');
+		await write('pkg/sub/__init__.py', '');
+		await write('pkg/sub/tool.py', 'def run(): pass\n');
+
+		const { files, edges } = await resolve('pkg/main.py');
+		assert.deepStrictEqual(files, ['pkg/main.py', 'pkg/models.py', 'pkg/helpers.py', 'pkg/sub/tool.py', 'pkg/sub/__init__.py']);
+		assert.ok(edges.includes('pkg/models.py -> pkg/sub/tool.py'));
+	});
+
+	test('follows Rust mod declarations', async () => {
+		await write('src/main.rs', 'mod config;\npub mod net;\n#[path = "gen/out.rs"]\nmod generated;\nmod tests {\n}\n');
+		await write('src/config.rs', 'mod defaults;\n');
+		await write('src/config/defaults.rs', '');
+		await write('src/net/mod.rs', 'pub(crate) mod http;\n');
+		await write('src/net/http.rs', '');
+		await write('src/gen/out.rs', '');
+
+		const { files } = await resolve('src/main.rs');
+		assert.deepStrictEqual(files, [
+			'src/main.rs', 'src/config.rs', 'src/net/mod.rs', 'src/gen/out.rs', 'src/config/defaults.rs', 'src/net/http.rs',
+		]);
+	});
+
+	test('stops at the configured depth and handles cycles', async () => {
+		await write('a.ts', "import './b';\n");
+		await write('b.ts', "import './c';\nimport './a';\n");
+		await write('c.ts', "import './d';\n");
+		await write('d.ts', '');
+
+		assert.deepStrictEqual((await resolve('a.ts', 1)).files, ['a.ts', 'b.ts']);
+		const { files, edges } = await resolve('a.ts', 2);
+		assert.deepStrictEqual(files, ['a.ts', 'b.ts', 'c.ts']);
+		assert.deepStrictEqual(edges, ['a.ts -> b.ts', 'b.ts -> c.ts', 'b.ts -> a.ts']);
+	});
+});
@@ -0,0 +1,172 @@
+// Benchmark of the export engine on a synthetic tree (pnpm run benchmark -- [options]):
+//
+//   --files <n>        Files to generate (default 50000)
+//   --latency <ms>     Delay added to every file system call, like a remote or virtual workspace
+//   --baseline <ref>   Git revision to compare with (default: the last one that read files one
+//                      at a time and built the bundle in memory before writing it)
+//   --keep             Keep the generated tree and the bundles
+//
+// The baseline is the engine's source at that revision, compiled into the work directory, so
+// both sides run the code they shipped with. Each side runs in a process of its own, so the
+// peak memory of one doesn't count for the other, and writes its bundle to a file the way the
+// editor does.
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { createHash } from 'crypto';
+import { execFile, fork } from 'child_process';
+import { promises as fsPromises } from 'fs';
+import { promisify } from 'util';
+import { FileSystem } from '../fileSystem';
+import { createLimiter, formatBytes } from '../utils';
+
+type Engine = typeof import('../bundler') & typeof import('../config') & typeof import('../fileSystem');
+
+interface RunResult {
+	ms: number;
+	maxRssBytes: number;
+}
+
+const repoRoot = path.join(__dirname, '..', '..');
+
+// Files of 10 to 70 lines in directories of 100, under a handful of packages.
+function syntheticFile(i: number): { relPath: string; content: string } {
+	const lines = [`// Generated module ${i}`, `export function run${i}(input: number): number {`];
+	for (let line = 0; line < 10 + (i * 7919) % 60; line++) {
+		lines.push(`    input = (input * ${line + 31} + ${i}) % 1000003; // step ${line}`);
+	}
+	lines.push('    return input;', '}', '');
+	const dir = Math.floor(i / 100);
+	return { relPath: `packages/pkg${dir % 20}/src/mod${dir}/file${i}.ts`, content: lines.join('\n') };
+}
+
+async function generateTree(root: string, files: number): Promise<number> {
+	const limit = createLimiter(64);
+	let bytes = 0;
+	await fsPromises.writeFile(path.join(root, '.gitignore'), '*.log\n');
+	await Promise.all(Array.from({ length: files }, (_, i) => limit(async () => {
+		const { relPath, content } = syntheticFile(i);
+		await fsPromises.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+		await fsPromises.writeFile(path.join(root, relPath), content);
+		bytes += Buffer.byteLength(content);
+	})));
+	return bytes;
+}
+
+async function git(args: string[]): Promise<string> {
+	return (await promisify(execFile)('git', args, { cwd: repoRoot, maxBuffer: 64 * 1024 * 1024 })).stdout;
+}
+
+// The parent of the commit that introduced concurrent reads.
+async function defaultBaseline(): Promise<string> {
+	const commits = (await git(['log', '--reverse', '--format=%H', '-S', 'DEFAULT_CONCURRENCY', '--', 'src/bundler.ts'])).split('\n');
+	if (!commits[0]) {
+		throw new Error('Could not find the baseline revision; pass --baseline <ref>.');
+	}
+	return `${commits[0]}^`;
+}
+
+// Compiles the engine's sources at `ref` to CommonJS in `outDir`.
+async function compileRevision(ref: string, outDir: string): Promise<void> {
+	const sources = (await git(['ls-tree', '-r', '--name-only', ref, 'src'])).split('\n')
+		.filter(file => file.endsWith('.ts') && !file.startsWith('src/test/'));
+	for (const source of sources) {
+		const { outputText } = ts.transpileModule(await git(['show', `${ref}:${source}`]), {
+			compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+		});
+		const outPath = path.join(outDir, path.relative('src', source).replace(/\.ts$/, '.js'));
+		await fsPromises.mkdir(path.dirname(outPath), { recursive: true });
+		await fsPromises.writeFile(outPath, outputText);
+	}
+}
+
+function withLatency(fileSystem: FileSystem, ms: number): FileSystem {
+	const delay = () => new Promise(resolve => setTimeout(resolve, ms));
+	return {
+		...fileSystem,
+		stat: async filePath => (await delay(), fileSystem.stat(filePath)),
+		readFile: async filePath => (await delay(), fileSystem.readFile(filePath)),
+		readDirectory: async dirPath => (await delay(), fileSystem.readDirectory(dirPath)),
+	};
+}
+
+async function runEngine(engineDir: string, root: string, outPath: string, latency: number): Promise<RunResult> {
+	const engine: Engine = {
+		...require(path.join(engineDir, 'bundler')),
+		...require(path.join(engineDir, 'config')),
+		...require(path.join(engineDir, 'fileSystem')),
+	};
+	const resolved = engine.resolveSheafyConfig(root, 'bench', engine.DEFAULT_VSCODE_SETTINGS, { sheafy: {}, profiles: {} }, null, () => undefined);
+	const config = { ...resolved, fileSystem: latency > 0 ? withLatency(engine.nodeFileSystem, latency) : engine.nodeFileSystem };
+	const started = performance.now();
+	if (engine.canStreamBundle?.(config)) {
+		await engine.streamBundle('.', config, async chunks => {
+			await engine.writeBundleFiles(outPath, { partChunks: [chunks] });
+		});
+	} else {
+		await engine.writeBundleFiles(outPath, await engine.buildBundle('.', config));
+	}
+	return { ms: performance.now() - started, maxRssBytes: process.resourceUsage().maxRSS * 1024 };
+}
+
+function runInChild(engineDir: string, root: string, outPath: string, latency: number): Promise<RunResult> {
+	return new Promise((resolve, reject) => {
+		// The baseline is compiled outside the repository, so it finds the dependencies through NODE_PATH.
+		const env = { ...process.env, NODE_PATH: path.join(repoRoot, 'node_modules') };
+		const child = fork(__filename, ['--run', engineDir, root, outPath, String(latency)], { env });
+		child.on('message', message => resolve(message as RunResult));
+		child.on('error', reject);
+		child.on('exit', code => code !== 0 && reject(new Error(`The run of ${engineDir} exited with code ${code}.`)));
+	});
+}
+
+async function sha1(filePath: string): Promise<string> {
+	return createHash('sha1').update(await fsPromises.readFile(filePath)).digest('hex');
+}
+
+async function main(args: string[]): Promise<void> {
+	if (args[0] === '--run') {
+		const [, engineDir, root, outPath, latency] = args;
+		process.send!(await runEngine(engineDir, root, outPath, Number(latency)));
+		return;
+	}
+	const option = (name: string) => {
+		const index = args.indexOf(name);
+		return index === -1 ? undefined : args[index + 1];
+	};
+	const files = Number(option('--files') ?? 50000);
+	const latency = Number(option('--latency') ?? 0);
+	const baseline = option('--baseline') ?? await defaultBaseline();
+	const workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'sheafy-benchmark-'));
+	const root = path.join(workDir, 'tree');
+	await fsPromises.mkdir(root);
+	try {
+		const baselineDir = path.join(workDir, 'baseline');
+		console.log(`Compiling ${(await git(['rev-parse', '--short', baseline])).trim()} as the baseline...`);
+		await compileRevision(baseline, baselineDir);
+		console.log(`Generating ${files.toLocaleString()} files in ${root}...`);
+		const bytes = await generateTree(root, files);
+		console.log(`Exporting ${formatBytes(bytes)}${latency > 0 ? ` with ${latency} ms per file system call` : ''}:\n`);
+		const engines = [['baseline', baselineDir], ['current', path.join(__dirname, '..')]] as const;
+		const results: RunResult[] = [];
+		for (const [label, engineDir] of engines) {
+			const { ms, maxRssBytes } = await runInChild(engineDir, root, path.join(workDir, `${label}.md`), latency);
+			results.push({ ms, maxRssBytes });
+			console.log(`${label.padEnd(10)} ${(ms / 1000).toFixed(2).padStart(8)} s ${formatBytes(maxRssBytes).padStart(10)} peak RSS`);
+		}
+		const [before, after] = results;
+		console.log(`\nTime: ${(100 * after.ms / before.ms).toFixed(0)}% of the baseline, peak memory: ${(100 * after.maxRssBytes / before.maxRssBytes).toFixed(0)}%`);
+		if (await sha1(path.join(workDir, 'baseline.md')) !== await sha1(path.join(workDir, 'current.md'))) {
+			throw new Error('The bundles differ.');
+		}
+	} finally {
+		if (!args.includes('--keep')) {
+			await fsPromises.rm(workDir, { recursive: true, force: true });
+		}
+	}
+}
+
+main(process.argv.slice(2)).catch(error => {
+	console.error(error);
+	process.exitCode = 1;
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { decodeBuffer, detectEncoding, readFileForExport } from '../fileReader';
+import { FileSystem, nodeFileSystem } from '../fileSystem';
+
+suite('File Reader Test Suite', () => {
+	// Serves `files` from memory and records which of them were read.
+	const memoryFileSystem = (files: { [filePath: string]: Buffer }, reads: string[] = []): FileSystem => ({
+		...nodeFileSystem,
+		stat: async filePath => ({ isFile: true, isDirectory: false, size: files[filePath].length, mtimeMs: 1000 }),
+		readFile: async filePath => {
+			reads.push(filePath);
+			return files[filePath];
+		},
+	});
+
+	test('detects BOMs and BOM-less UTF-16', () => {
+		assert.strictEqual(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x68, 0x69])), 'utf-8-bom');
+		assert.strictEqual(detectEncoding(Buffer.from([0xff, 0xfe, 0x68, 0x00])), 'utf-16le');
+		assert.strictEqual(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x68])), 'utf-16be');
+		assert.strictEqual(detectEncoding(Buffer.from('hello world', 'utf16le')), 'utf-16le');
+		assert.strictEqual(detectEncoding(Buffer.from('hello world', 'utf16le').swap16()), 'utf-16be');
+	});
+
+	test('tells UTF-8 from Latin-1 and binary content', () => {
+		assert.strictEqual(detectEncoding(Buffer.from('grüße', 'utf-8')), 'utf-8');
+		assert.strictEqual(detectEncoding(Buffer.from('grüße', 'latin1')), 'latin1');
+		assert.strictEqual(detectEncoding(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])), null); // PNG
+		assert.strictEqual(detectEncoding(Buffer.from([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31])), null); // PDF
+		assert.strictEqual(detectEncoding(Buffer.from([0x01, 0x00, 0x02, 0x03, 0x00, 0x00, 0x7f, 0x45])), null); // NUL bytes
+	});
+
+	test('decodes each encoding to the same text', () => {
+		const text = 'Grüße, 世界\n';
+		assert.strictEqual(decodeBuffer(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text)]), 'utf-8-bom'), text);
+		assert.strictEqual(decodeBuffer(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]), 'utf-16le'), text);
+		assert.strictEqual(decodeBuffer(Buffer.from(text, 'utf16le').swap16(), 'utf-16be'), text);
+		assert.strictEqual(decodeBuffer(Buffer.from('Grüße', 'latin1'), 'latin1'), 'Grüße');
+	});
+
+	test('skips files over the size limit without reading them', async () => {
+		const reads: string[] = [];
+		const fileSystem = memoryFileSystem({ '/big.txt': Buffer.alloc(2048, 'a'), '/small.txt': Buffer.from('small') }, reads);
+		assert.deepStrictEqual(await readFileForExport('/big.txt', 1024, fileSystem), { kind: 'skipped', reason: 'too large', size: 2048, mtimeMs: 1000 });
+		assert.strictEqual((await readFileForExport('/big.txt', null, fileSystem)).kind, 'text'); // No limit
+		assert.strictEqual((await readFileForExport('/small.txt', 1024, fileSystem)).kind, 'text');
+		assert.deepStrictEqual(reads, ['/big.txt', '/small.txt']);
+	});
+
+	test('reads text with its encoding and skips binary files', async () => {
+		const fileSystem = memoryFileSystem({
+			'/notes.txt': Buffer.from('caf\xe9\n', 'latin1'),
+			'/logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]),
+		});
+		assert.deepStrictEqual(await readFileForExport('/notes.txt', null, fileSystem), { kind: 'text', content: 'café\n', encoding: 'latin1', size: 5, mtimeMs: 1000 });
+		assert.deepStrictEqual(await readFileForExport('/logo.png', null, fileSystem), { kind: 'skipped', reason: 'binary', size: 10, mtimeMs: 1000 });
+	});
+
+	test('uses a known stat instead of stat-ing again', async () => {
+		const fileSystem: FileSystem = {
+			...memoryFileSystem({ '/a.txt': Buffer.from('a') }),
+			stat: () => Promise.reject(new Error('stat called')),
+		};
+		const result = await readFileForExport('/a.txt', 10, fileSystem, { isFile: true, isDirectory: false, size: 1, mtimeMs: 5 });
+		assert.strictEqual(result.mtimeMs, 5);
+	});
+});
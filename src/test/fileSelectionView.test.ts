@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FileSelectionProvider } from '../fileSelectionView';
+import { estimateTokens } from '../utils';
+import { MemFileSystem } from './memFileSystem';
+
+// Runs in the extension host (npm test).
+suite('File Selection View Test Suite', () => {
+	const scheme = 'sheafy-selection-test';
+	let mem: MemFileSystem;
+	let registration: vscode.Disposable;
+	let provider: FileSelectionProvider;
+
+	const memento = (): vscode.Memento => {
+		const values = new Map<string, unknown>();
+		return {
+			keys: () => [...values.keys()],
+			get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+			update: async (key: string, value: unknown) => {
+				values.set(key, value);
+			},
+		} as vscode.Memento;
+	};
+
+	setup(() => {
+		mem = new MemFileSystem(scheme);
+		registration = vscode.workspace.registerFileSystemProvider(scheme, mem, { isCaseSensitive: true });
+		provider = new FileSelectionProvider(memento());
+		mem.addFiles({
+			'/project/sheafy.toml': '[sheafy]\nmax_file_size = "1KB"\n',
+			'/project/.gitignore': '*.log\n',
+			'/project/debug.log': 'noise\n',
+			'/project/README.md': '# Project\n',
+			'/project/src/app.ts': 'export const app = 1;\n',
+			'/project/src/guide.pdf': '%PDF-1.4\n',
+			'/project/src/data.json': 'x'.repeat(2048),
+		});
+	});
+
+	teardown(() => {
+		provider.dispose();
+		registration.dispose();
+	});
+
+	test('sizes every file the export would include and notes the ones it would skip', async () => {
+		await provider.refresh(mem.uri('/project'));
+		assert.deepStrictEqual(provider.getChildren().map(node => node.name), ['src', '.gitignore', 'README.md']);
+		const src = provider.getChildren().find(node => node.name === 'src')!;
+		assert.deepStrictEqual(provider.getChildren(src).map(node => [node.name, node.bytes, node.tokens, node.note]), [
+			['app.ts', 22, estimateTokens('export const app = 1;\n'), undefined],
+			['data.json', 2048, 0, 'too large'],
+			['guide.pdf', 9, 0, 'binary'],
+		]);
+		assert.strictEqual(provider.getTreeItem(src).description, `3/3 · ~${estimateTokens('export const app = 1;\n')} tokens`);
+	});
+
+	test('exports the checked files only', async () => {
+		await provider.refresh(mem.uri('/project'));
+		assert.strictEqual(provider.getCheckedFiles().length, 5);
+		await provider.setAllChecked(false);
+		assert.deepStrictEqual(provider.getCheckedFiles(), []);
+		assert.strictEqual(provider.getTreeItem(provider.getChildren()[0]).checkboxState, vscode.TreeItemCheckboxState.Unchecked);
+	});
+});
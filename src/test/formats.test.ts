@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { chooseFence, createTemplateResolver, getFormatter, interleave, SectionInput } from '../formats';
+
+suite('Formats Test Suite', () => {
+	const section = (content: string, extra: Partial<SectionInput> = {}): SectionInput => ({ displayPath: 'src/a.ts', lang: 'typescript', content, ...extra });
+	const bundle = (format: Parameters<typeof getFormatter>[0], sections: SectionInput[], template = '') => {
+		const formatter = getFormatter(format, template);
+		return formatter.renderBundle({ prologue: '', header: '', sections: sections.map(formatter.renderSection), epilogue: '' }).join('');
+	};
+
+	test('chooses a fence longer than any backtick run in the content', () => {
+		assert.strictEqual(chooseFence('no backticks'), '```');
+		assert.strictEqual(chooseFence('`inline` and ``double``'), '```');
+		assert.strictEqual(chooseFence('```ts\ncode\n```'), '````');
+		assert.strictEqual(chooseFence('`````'), '``````');
+	});
+
+	test('fences markdown sections so their content cannot close the block', () => {
+		assert.strictEqual(getFormatter('markdown', '').renderSection(section('x')), '### src/a.ts\n\n```typescript\nx\n```\n');
+		assert.strictEqual(getFormatter('markdown', '').renderSection(section('```\nx\n```\n', { lang: 'markdown' })), '### src/a.ts\n\n````markdown\n```\nx\n```\n````\n');
+		assert.strictEqual(getFormatter('markdown', '').renderSection(section('', { note: 'a.png (binary, skipped)' })), '### src/a.ts\n\na.png (binary, skipped)\n');
+	});
+
+	test('escapes attributes and CDATA ends in XML', () => {
+		const xml = getFormatter('xml', '').renderSection(section('if (a ]]> b) {}', { displayPath: 'a&"b".ts' }));
+		assert.strictEqual(xml, '<document path="a&amp;&quot;b&quot;.ts" lang="typescript">\n<![CDATA[if (a ]]]]><![CDATA[> b) {}]]>\n</document>');
+		assert.strictEqual(getFormatter('xml', '').renderSection(section('', { note: '<binary>' })), '<document path="src/a.ts" lang="typescript" omitted="true">&lt;binary&gt;</document>');
+		assert.strictEqual(bundle('xml', [section('x')]), '<documents>\n<document path="src/a.ts" lang="typescript">\n<![CDATA[x]]>\n</document>\n</documents>\n');
+	});
+
+	test('writes JSON that parses back to the files', () => {
+		const json = bundle('json', [section('a\n"quoted"\n'), section('', { displayPath: 'logo.png', lang: 'plaintext', note: 'binary' }), section('b', { diff: '+b' })]);
+		assert.deepStrictEqual(JSON.parse(json), [
+			{ path: 'src/a.ts', lang: 'typescript', content: 'a\n"quoted"\n' },
+			{ path: 'logo.png', lang: 'plaintext', content: null, note: 'binary' },
+			{ path: 'src/a.ts', lang: 'typescript', content: 'b', diff: '+b' },
+		]);
+		assert.deepStrictEqual(JSON.parse(bundle('json', [])), []);
+	});
+
+	test('separates plain sections with headers and appends diffs', () => {
+		assert.strictEqual(bundle('plain', [section('a'), section('b\n', { displayPath: 'b.ts', diff: '-a\n+b' })]),
+			'==> src/a.ts <==\na\n\n\n==> b.ts <==\nb\n\n==> b.ts (diff) <==\n-a\n+b\n');
+	});
+
+	test('renders custom templates with the file details', () => {
+		const formatter = getFormatter('custom', '--- {relpath} ({lang}, {lines} lines, {tokens} tokens) ---\n{content}');
+		assert.strictEqual(formatter.renderSection(section('one\ntwo\n')), '--- src/a.ts (typescript, 2 lines, 2 tokens) ---\none\ntwo\n');
+		assert.strictEqual(formatter.renderSection(section('x', { diff: '+x' })), '--- src/a.ts (typescript, 1 lines, 1 tokens) ---\nx\n```diff\n+x\n```\n');
+		assert.strictEqual(formatter.renderSection(section('x', { template: '<{filename}>{content}', placeholders: { filename: 'a.ts' } })), '<a.ts>x');
+	});
+
+	test('applies template rules to markdown and plain, but not to XML', () => {
+		const templated = section('x', { template: '# {relpath}\n{content}' });
+		assert.strictEqual(getFormatter('markdown', '').renderSection(templated), '# src/a.ts\nx');
+		assert.strictEqual(getFormatter('plain', '').renderSection(templated), '# src/a.ts\nx');
+		assert.ok(getFormatter('xml', '').renderSection(templated).startsWith('<document '));
+	});
+
+	test('resolves the template of the last matching rule', () => {
+		const resolve = createTemplateResolver([
+			{ patterns: ['*.ts'], languages: [], template: 'ts' },
+			{ patterns: [], languages: ['markdown'], template: 'md' },
+			{ patterns: ['tests/'], languages: [], template: 'tests' },
+		]);
+		assert.strictEqual(resolve('src/a.ts', 'typescript'), 'ts');
+		assert.strictEqual(resolve('tests/a.ts', 'typescript'), 'tests');
+		assert.strictEqual(resolve('../outside/README.md', 'markdown'), 'md');
+		assert.strictEqual(resolve('src/a.py', 'python'), undefined);
+	});
+
+	test('interleaves a separator without joining the pieces', () => {
+		assert.deepStrictEqual(interleave(['a', 'b', 'c'], ', '), ['a', ', ', 'b', ', ', 'c']);
+		assert.deepStrictEqual(interleave([], ', '), []);
+	});
+});
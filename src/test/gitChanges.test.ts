@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { promises as fsPromises } from 'fs';
+import { getGitChanges } from '../gitChanges';
+
+suite('Git Changes Test Suite', () => {
+	let repo: string;
+
+	const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+	const write = (relPath: string, content: string) => fsPromises.writeFile(path.join(repo, relPath), content);
+	const relPaths = (changes: { filePath: string }[]) => changes.map(change => path.relative(repo, change.filePath).replace(/\\/g, '/'));
+
+	setup(async () => {
+		repo = await fsPromises.realpath(await fsPromises.mkdtemp(path.join(os.tmpdir(), 'sheafy-git-')));
+		git('init', '-q', '-b', 'main');
+		git('config', 'user.email', 'test@example.com');
+		git('config', 'user.name', 'Sheafy Test');
+		await fsPromises.mkdir(path.join(repo, 'src'));
+		await write('src/a.ts', 'export const a = 1;\n');
+		await write('src/b.ts', 'export const b = 1;\n');
+		await write('.gitignore', '*.log\n');
+		git('add', '.');
+		git('commit', '-q', '-m', 'initial');
+	});
+
+	teardown(async () => {
+		await fsPromises.rm(repo, { recursive: true, force: true });
+	});
+
+	test('working mode lists modified and untracked files, but not ignored or deleted ones', async () => {
+		await write('src/a.ts', 'export const a = 2;\n');
+		await write('src/new.ts', 'export const n = 1;\n');
+		await write('debug.log', 'noise\n');
+		await fsPromises.rm(path.join(repo, 'src/b.ts'));
+
+		const changes = await getGitChanges(repo, { mode: 'working' });
+		assert.deepStrictEqual(relPaths(changes), ['src/a.ts', 'src/new.ts']);
+		assert.deepStrictEqual(changes.map(change => change.untracked), [false, true]);
+	});
+
+	test('staged mode lists only staged files', async () => {
+		await write('src/a.ts', 'export const a = 2;\n');
+		await write('src/b.ts', 'export const b = 2;\n');
+		git('add', 'src/b.ts');
+
+		const changes = await getGitChanges(repo, { mode: 'staged' });
+		assert.deepStrictEqual(relPaths(changes), ['src/b.ts']);
+	});
+
+	test('since mode diffs against the merge-base of a ref', async () => {
+		git('checkout', '-q', '-b', 'feature');
+		await write('src/a.ts', 'export const a = 3;\n');
+		git('commit', '-q', '-am', 'feature change');
+		git('checkout', '-q', 'main');
+		await write('src/b.ts', 'export const b = 3;\n');
+		git('commit', '-q', '-am', 'main change');
+		git('checkout', '-q', 'feature');
+
+		const sinceMergeBase = await getGitChanges(repo, { mode: 'since', ref: 'main', mergeBase: true });
+		assert.deepStrictEqual(relPaths(sinceMergeBase), ['src/a.ts']);
+
+		const sinceRef = await getGitChanges(repo, { mode: 'since', ref: 'main' });
+		assert.deepStrictEqual(relPaths(sinceRef), ['src/a.ts', 'src/b.ts']);
+	});
+
+	test('includes unified diffs when requested', async () => {
+		await write('src/a.ts', 'export const a = 2;\n');
+		await write('src/new.ts', 'export const n = 1;\n');
+
+		const changes = await getGitChanges(repo, { mode: 'working', includeDiffs: true });
+		assert.match(changes[0].diff!, /-export const a = 1;\n\+export const a = 2;/);
+		assert.match(changes[1].diff!, /new file mode/);
+		assert.match(changes[1].diff!, /\+export const n = 1;/);
+	});
+
+	test('writes plain diffs whatever the color and external diff settings', async () => {
+		git('config', 'color.ui', 'always');
+		git('config', 'diff.external', 'echo');
+		await write('src/a.ts', 'export const a = 2;\n');
+		await write('src/new.ts', 'export const n = 1;\n');
+
+		const changes = await getGitChanges(repo, { mode: 'working', includeDiffs: true });
+		assert.match(changes[0].diff!, /^diff --git a\/src\/a\.ts b\/src\/a\.ts\n/);
+		assert.ok(changes.every(change => !change.diff!.includes('\x1b[')));
+	});
+
+	test('rejects refs that git would read as options', async () => {
+		await assert.rejects(getGitChanges(repo, { mode: 'since', ref: '--output=/tmp/x' }), /Invalid git ref '--output=\/tmp\/x'/);
+	});
+
+	test('works in a repository without commits', async () => {
+		await fsPromises.rm(path.join(repo, '.git'), { recursive: true, force: true });
+		git('init', '-q');
+		await write('src/a.ts', 'export const a = 1;\n');
+
+		const changes = await getGitChanges(repo, { mode: 'working' });
+		assert.deepStrictEqual(relPaths(changes), ['.gitignore', 'src/a.ts', 'src/b.ts']);
+	});
+
+	test('rejects directories outside a git repository', async () => {
+		const outside = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'sheafy-nogit-'));
+		try {
+			await assert.rejects(getGitChanges(outside, { mode: 'working' }), /Not a git repository/);
+		} finally {
+			await fsPromises.rm(outside, { recursive: true, force: true });
+		}
+	});
+});
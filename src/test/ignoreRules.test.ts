@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { DEFAULT_VSCODE_SETTINGS, MergedSheafyConfig, resolveSheafyConfig, SheafyTomlConfig } from '../config';
+import { discoverFiles } from '../bundler';
+import { createPathFilter, explainIgnored, explainNotIncluded, loadIgnoreRules } from '../ignoreRules';
+
+suite('Ignore Rules Test Suite', () => {
+	let root: string;
+
+	const write = async (relPath: string, content = '') => {
+		await fsPromises.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+		await fsPromises.writeFile(path.join(root, relPath), content);
+	};
+	const configFor = (sheafy: SheafyTomlConfig = {}): MergedSheafyConfig =>
+		resolveSheafyConfig(root, 'project', DEFAULT_VSCODE_SETTINGS, { sheafy, profiles: {} }, null, () => undefined);
+	const discovered = async (sheafy: SheafyTomlConfig = {}) =>
+		(await discoverFiles(root, configFor(sheafy))).map(filePath => path.relative(root, filePath).replace(/\\/g, '/'));
+
+	setup(async () => {
+		root = await fsPromises.realpath(await fsPromises.mkdtemp(path.join(os.tmpdir(), 'sheafy-ignore-')));
+	});
+
+	teardown(async () => {
+		await fsPromises.rm(root, { recursive: true, force: true });
+	});
+
+	test('applies nested .gitignore files, deeper ones overriding shallower ones', async () => {
+		await write('.gitignore', '*.log\ntmp/\n');
+		await write('app.log');
+		await write('tmp/scratch.txt');
+		await write('logs/.gitignore', '!keep.log\n');
+		await write('logs/keep.log');
+		await write('logs/drop.log');
+		await write('logs/sub/.gitignore', '/local.txt\n');
+		await write('logs/sub/local.txt');
+		await write('local.txt');
+		assert.deepStrictEqual(await discovered(), ['.gitignore', 'local.txt', 'logs/.gitignore', 'logs/keep.log', 'logs/sub/.gitignore']);
+	});
+
+	test('reads .git/info/exclude and never exports .git', async () => {
+		await write('.git/info/exclude', 'secret.txt\n');
+		await write('.git/HEAD', 'ref: refs/heads/main\n');
+		await write('secret.txt');
+		await write('src/secret.txt');
+		await write('src/app.ts');
+		assert.deepStrictEqual(await discovered(), ['src/app.ts']);
+	});
+
+	test('lets .sheafyignore and ignore_patterns override .gitignore and the built-in defaults', async () => {
+		await write('.gitignore', '*.log\n');
+		await write('.sheafyignore', '!keep.log\ndocs/\n');
+		await write('keep.log');
+		await write('other.log');
+		await write('docs/guide.md');
+		await write('dist/bundle.js');
+		await write('node_modules/dep/index.js');
+		assert.deepStrictEqual(await discovered(), ['.gitignore', '.sheafyignore', 'keep.log']);
+		assert.deepStrictEqual(await discovered({ ignore_patterns: '!dist/\n.*ignore' }), ['dist/bundle.js', 'keep.log']);
+	});
+
+	test('keeps .sheafyignore but skips .gitignore files when use_gitignore is off', async () => {
+		await write('.gitignore', '*.log\n');
+		await write('.sheafyignore', '*.tmp\n');
+		await write('app.log');
+		await write('notes.tmp');
+		assert.deepStrictEqual(await discovered({ use_gitignore: false }), ['.gitignore', '.sheafyignore', 'app.log']);
+	});
+
+	test('does not re-include files below an ignored directory', async () => {
+		await write('.gitignore', 'generated/\n!generated/keep.ts\n');
+		await write('generated/keep.ts');
+		assert.deepStrictEqual(await discovered(), ['.gitignore']);
+	});
+
+	test('never exports the bundle, its parts or sheafy.toml', async () => {
+		await write('sheafy.toml', '[sheafy]\n');
+		await write('project_bundle.md');
+		await write('project_bundle.part2.md');
+		await write('notes.md');
+		assert.deepStrictEqual(await discovered(), ['notes.md']);
+	});
+
+	test('explains which pattern of which file ignored a path', async () => {
+		await write('.gitignore', '# Logs\n*.log\n\n!keep.log\n');
+		await write('src/.sheafyignore', 'fixtures/\n');
+		const config = configFor({ ignore_patterns: '*.tmp' });
+		const rules = await loadIgnoreRules(config, path.join(root, 'src', 'deep'));
+		assert.deepStrictEqual(explainIgnored(rules, path.join(root, 'src', 'debug.log'), false), { source: '.gitignore:2', pattern: '*.log' });
+		assert.strictEqual(explainIgnored(rules, path.join(root, 'keep.log'), false), null);
+		assert.deepStrictEqual(explainIgnored(rules, path.join(root, 'src', 'fixtures'), true), { source: 'src/.sheafyignore:1', pattern: 'fixtures/' });
+		assert.deepStrictEqual(explainIgnored(rules, path.join(root, 'a.tmp'), false), { source: 'sheafy.toml ignore_patterns', pattern: '*.tmp' });
+		assert.deepStrictEqual(explainIgnored(rules, path.join(root, 'dist'), true), { source: 'built-in defaults', pattern: 'dist/' });
+	});
+
+	test('exports only files matching include_patterns and the extension lists', async () => {
+		await write('src/app.ts');
+		await write('src/app.d.ts');
+		await write('src/README.MD');
+		await write('docs/guide.md');
+		await write('package.json');
+		assert.deepStrictEqual(await discovered({ include_patterns: 'src/\npackage.json' }), ['package.json', 'src/README.MD', 'src/app.d.ts', 'src/app.ts']);
+		assert.deepStrictEqual(await discovered({ include_extensions: ['ts', 'md'], exclude_extensions: ['d.ts'] }), ['docs/guide.md', 'src/README.MD', 'src/app.ts']);
+		assert.deepStrictEqual(await discovered({ include_patterns: 'src/', include_extensions: ['md'] }), ['src/README.MD']);
+	});
+
+	test('never re-includes an ignored file through include_patterns', async () => {
+		await write('.gitignore', '*.log\n');
+		await write('app.log');
+		await write('app.ts');
+		assert.deepStrictEqual(await discovered({ include_patterns: '*.log\n*.ts' }), ['app.ts']);
+	});
+
+	test('explains which include rule filtered out a file', async () => {
+		const rules = await loadIgnoreRules(configFor({ include_patterns: 'src/', include_extensions: ['ts', 'md'], exclude_extensions: ['d.ts'] }), root);
+		assert.deepStrictEqual(explainNotIncluded(rules, path.join(root, 'src', 'types.d.ts')), { source: 'sheafy.toml exclude_extensions', pattern: 'd.ts' });
+		assert.deepStrictEqual(explainNotIncluded(rules, path.join(root, 'src', 'logo.png')), { source: 'sheafy.toml include_extensions', pattern: 'ts, md' });
+		assert.deepStrictEqual(explainNotIncluded(rules, path.join(root, 'docs', 'guide.md')), { source: 'sheafy.toml include_patterns', pattern: 'no pattern matches' });
+		assert.strictEqual(explainNotIncluded(rules, path.join(root, 'src', 'app.ts')), null);
+	});
+
+	test('filters single paths like a walk of the base path', async () => {
+		await write('.gitignore', 'generated/\n');
+		await write('lib/.gitignore', '*.tmp\n');
+		const filter = await createPathFilter(configFor({ include_extensions: ['ts', 'tmp'] }));
+		assert.strictEqual(await filter(path.join(root, 'lib', 'app.ts')), true);
+		assert.strictEqual(await filter(path.join(root, 'lib', 'scratch.tmp')), false);
+		assert.strictEqual(await filter(path.join(root, 'scratch.tmp')), true);
+		assert.strictEqual(await filter(path.join(root, 'generated', 'deep', 'api.ts')), false);
+		assert.strictEqual(await filter(path.join(root, 'node_modules', 'dep', 'index.ts')), false);
+		assert.strictEqual(await filter(path.join(root, 'notes.md')), false);
+		assert.strictEqual(await filter(path.join(path.dirname(root), 'outside.ts')), false);
+	});
+});
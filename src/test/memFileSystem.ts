@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+interface MemEntry {
+	type: vscode.FileType;
+	data: Uint8Array; // Empty for directories
+	ctime: number;
+	mtime: number;
+}
+
+/**
+ * In-memory FileSystemProvider for tests: a virtual workspace with a scheme of its own, like the
+ * ones of remote repositories or the web. Paths are the URIs' paths.
+ */
+export class MemFileSystem implements vscode.FileSystemProvider {
+	private readonly entries = new Map<string, MemEntry>([['/', { type: vscode.FileType.Directory, data: new Uint8Array(), ctime: 0, mtime: 0 }]]);
+	private readonly changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+	readonly onDidChangeFile = this.changeEmitter.event;
+
+	constructor(readonly scheme: string) {}
+
+	uri(filePath: string): vscode.Uri {
+		return vscode.Uri.from({ scheme: this.scheme, path: filePath });
+	}
+
+	/** Creates the files (and their parent directories) with the given text. */
+	addFiles(files: { [filePath: string]: string }): void {
+		for (const [filePath, content] of Object.entries(files)) {
+			this.mkdirs(path.posix.dirname(filePath));
+			this.entries.set(filePath, { type: vscode.FileType.File, data: Buffer.from(content), ctime: Date.now(), mtime: Date.now() });
+		}
+	}
+
+	text(filePath: string): string | undefined {
+		const entry = this.entries.get(filePath);
+		return entry?.type === vscode.FileType.File ? Buffer.from(entry.data).toString('utf-8') : undefined;
+	}
+
+	private mkdirs(dirPath: string): void {
+		for (let dir = dirPath; !this.entries.has(dir); dir = path.posix.dirname(dir)) {
+			this.entries.set(dir, { type: vscode.FileType.Directory, data: new Uint8Array(), ctime: Date.now(), mtime: Date.now() });
+		}
+	}
+
+	private lookup(uri: vscode.Uri): MemEntry {
+		const entry = this.entries.get(uri.path);
+		if (!entry) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		return entry;
+	}
+
+	watch(): vscode.Disposable {
+		return new vscode.Disposable(() => undefined);
+	}
+
+	stat(uri: vscode.Uri): vscode.FileStat {
+		const entry = this.lookup(uri);
+		return { type: entry.type, ctime: entry.ctime, mtime: entry.mtime, size: entry.data.byteLength };
+	}
+
+	readDirectory(uri: vscode.Uri): Array<[string, vscode.FileType]> {
+		if (this.lookup(uri).type !== vscode.FileType.Directory) {
+			throw vscode.FileSystemError.FileNotADirectory(uri);
+		}
+		const prefix = uri.path === '/' ? '/' : `${uri.path}/`;
+		return [...this.entries.entries()]
+			.filter(([entryPath]) => entryPath !== '/' && entryPath.startsWith(prefix) && !entryPath.slice(prefix.length).includes('/'))
+			.map(([entryPath, entry]) => [entryPath.slice(prefix.length), entry.type]);
+	}
+
+	createDirectory(uri: vscode.Uri): void {
+		if (!this.entries.has(path.posix.dirname(uri.path))) {
+			throw vscode.FileSystemError.FileNotFound(uri.with({ path: path.posix.dirname(uri.path) }));
+		}
+		this.mkdirs(uri.path);
+	}
+
+	readFile(uri: vscode.Uri): Uint8Array {
+		const entry = this.lookup(uri);
+		if (entry.type !== vscode.FileType.File) {
+			throw vscode.FileSystemError.FileIsADirectory(uri);
+		}
+		return entry.data;
+	}
+
+	writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): void {
+		const existing = this.entries.get(uri.path);
+		if (existing?.type === vscode.FileType.Directory) {
+			throw vscode.FileSystemError.FileIsADirectory(uri);
+		}
+		if (!existing && !options.create) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		if (existing && !options.overwrite) {
+			throw vscode.FileSystemError.FileExists(uri);
+		}
+		if (!this.entries.has(path.posix.dirname(uri.path))) {
+			throw vscode.FileSystemError.FileNotFound(uri.with({ path: path.posix.dirname(uri.path) }));
+		}
+		this.entries.set(uri.path, { type: vscode.FileType.File, data: content, ctime: existing?.ctime ?? Date.now(), mtime: Date.now() });
+		this.changeEmitter.fire([{ type: existing ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri }]);
+	}
+
+	delete(uri: vscode.Uri): void {
+		this.lookup(uri);
+		for (const entryPath of [...this.entries.keys()]) {
+			if (entryPath === uri.path || entryPath.startsWith(`${uri.path}/`)) {
+				this.entries.delete(entryPath);
+			}
+		}
+		this.changeEmitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+	}
+
+	rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): void {
+		if (this.entries.has(newUri.path) && !options.overwrite) {
+			throw vscode.FileSystemError.FileExists(newUri);
+		}
+		this.lookup(oldUri);
+		for (const [entryPath, entry] of [...this.entries.entries()]) {
+			if (entryPath === oldUri.path || entryPath.startsWith(`${oldUri.path}/`)) {
+				this.entries.delete(entryPath);
+				this.entries.set(newUri.path + entryPath.slice(oldUri.path.length), entry);
+			}
+		}
+	}
+}
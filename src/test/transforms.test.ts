@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { applyTransforms, createTransformResolver, NO_TRANSFORMS, TransformSettings } from '../transforms';
+
+suite('Transforms Test Suite', () => {
+	const transform = (content: string, languageId: string, settings: Partial<TransformSettings>, firstLine?: number) =>
+		applyTransforms(content, languageId, { ...NO_TRANSFORMS, ...settings }, firstLine);
+
+	test('leaves content alone without transforms', () => {
+		assert.strictEqual(transform('a // b\n\n\nc\n', 'typescript', {}), 'a // b\n\n\nc\n');
+	});
+
+	test('strips comments but not comment markers in strings', () => {
+		const source = '/* header */\nconst url = "http://example.com"; // trailing\nconst s = `/* kept */`;\n// whole line\nrun();\n';
+		assert.strictEqual(transform(source, 'typescript', { strip_comments: true }),
+			'const url = "http://example.com";\nconst s = `/* kept */`;\nrun();\n');
+	});
+
+	test('keeps the shebang and Python docstrings', () => {
+		const source = '#!/usr/bin/env python\n# comment\nx = "#not"  # comment\n"""\n# docstring\n"""\n';
+		assert.strictEqual(transform(source, 'python', { strip_comments: true }), '#!/usr/bin/env python\nx = "#not"\n"""\n# docstring\n"""\n');
+	});
+
+	test('strips only a leading license comment', () => {
+		const licensed = '// Copyright 2024 Example\n// SPDX-License-Identifier: MIT\n\n// Helpers\nexport {};\n';
+		assert.strictEqual(transform(licensed, 'typescript', { strip_license_header: true }), '// Helpers\nexport {};\n');
+		const unlicensed = '// Helpers\nexport {};\n';
+		assert.strictEqual(transform(unlicensed, 'typescript', { strip_license_header: true }), unlicensed);
+	});
+
+	test('collapses blank lines and keeps head and tail with original line numbers', () => {
+		const source = ['a', '', '', 'b', 'c', 'd', 'e', 'f'].join('\n') + '\n';
+		assert.strictEqual(transform(source, 'plaintext', { collapse_blank_lines: true, head_lines: 2, tail_lines: 1, line_numbers: true }, 9),
+			' 9 | a\n10 |\n   | ... 4 lines omitted ...\n16 | f\n');
+	});
+
+	test('strips the comment syntax of each language', () => {
+		assert.strictEqual(transform('echo $# # args\nurl=a#b\n# done\n', 'shellscript', { strip_comments: true }), 'echo $#\nurl=a#b\n');
+		assert.strictEqual(transform("SELECT '--' AS dash; -- note\n/* block */\n", 'sql', { strip_comments: true }), "SELECT '--' AS dash;\n");
+		assert.strictEqual(transform('<p>a</p>\n<!--\n  hidden\n-->\n<p>b</p>\n', 'html', { strip_comments: true }), '<p>a</p>\n<p>b</p>\n');
+		assert.strictEqual(transform("fn f<'a>(s: &'a str) {} // f\n", 'rust', { strip_comments: true }), "fn f<'a>(s: &'a str) {}\n");
+		assert.strictEqual(transform('# not a comment here\n', 'plaintext', { strip_comments: true }), '# not a comment here\n');
+	});
+
+	test('numbers lines of the original file after stripping comments', () => {
+		const source = '// one\nconst a = 1;\n\n\n// four\nconst b = 2;';
+		assert.strictEqual(transform(source, 'typescript', { strip_comments: true, collapse_blank_lines: true, line_numbers: true }),
+			'2 | const a = 1;\n3 |\n6 | const b = 2;');
+	});
+
+	test('keeps only the head or only the tail', () => {
+		const source = 'a\nb\nc\nd\n';
+		assert.strictEqual(transform(source, 'plaintext', { head_lines: 1 }), 'a\n... 3 lines omitted ...\n');
+		assert.strictEqual(transform(source, 'plaintext', { tail_lines: 3 }), '... 1 line omitted ...\nb\nc\nd\n');
+		assert.strictEqual(transform(source, 'plaintext', { head_lines: 2, tail_lines: 2 }), source);
+	});
+
+	test('later matching rules override earlier ones', () => {
+		const resolve = createTransformResolver({ ...NO_TRANSFORMS, line_numbers: true }, [
+			{ patterns: ['tests/**'], settings: { head_lines: 20, line_numbers: false } },
+			{ patterns: ['tests/fixtures/'], settings: { head_lines: null } },
+		]);
+		assert.deepStrictEqual(resolve('src/a.ts'), { ...NO_TRANSFORMS, line_numbers: true });
+		assert.deepStrictEqual(resolve('tests/a.ts'), { ...NO_TRANSFORMS, head_lines: 20 });
+		assert.deepStrictEqual(resolve('tests/fixtures/big.json'), NO_TRANSFORMS);
+		assert.deepStrictEqual(resolve('../outside.ts'), { ...NO_TRANSFORMS, line_numbers: true });
+	});
+});
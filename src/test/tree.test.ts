@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { renderTree } from '../tree';
+
+suite('Tree Test Suite', () => {
+	const entries = [
+		{ path: 'src/app.ts', bytes: 120, lines: 1 },
+		{ path: 'README.md', bytes: 2048, lines: 40 },
+		{ path: 'src/lib/util.ts', bytes: 10, lines: 2 },
+		{ path: 'src/lib/deep/more.ts' },
+	];
+
+	test('lists directories before files, each alphabetically', () => {
+		assert.strictEqual(renderTree('project/', entries.map(entry => ({ path: entry.path })), null), [
+			'project/',
+			'├── src/',
+			'│   ├── lib/',
+			'│   │   ├── deep/',
+			'│   │   │   └── more.ts',
+			'│   │   └── util.ts',
+			'│   └── app.ts',
+			'└── README.md',
+		].join('\n'));
+	});
+
+	test('collapses directories below the depth limit into a file count', () => {
+		assert.strictEqual(renderTree('project/', entries, 1), 'project/\n├── src/ (3 files)\n└── README.md (2 KB, 40 lines)');
+		assert.strictEqual(renderTree('project/', entries, 2), [
+			'project/',
+			'├── src/',
+			'│   ├── lib/ (2 files)',
+			'│   └── app.ts (120 B, 1 line)',
+			'└── README.md (2 KB, 40 lines)',
+		].join('\n'));
+	});
+
+	test('renders only the root label without entries', () => {
+		assert.strictEqual(renderTree('project/', [], null), 'project/');
+	});
+});
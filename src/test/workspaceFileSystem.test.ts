@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DEFAULT_VSCODE_SETTINGS, MergedSheafyConfig, readSheafyToml, resolveSheafyConfig } from '../config';
+import { buildBundle, discoverFiles, writeBundleFiles } from '../bundler';
+import { toPosixPath } from '../utils';
+import { WorkspaceFileSystem } from '../workspaceFileSystem';
+import { MemFileSystem } from './memFileSystem';
+
+// Runs in the extension host (npm test), like a virtual workspace of a remote repository.
+suite('Workspace File System Test Suite', () => {
+	const scheme = 'sheafy-test';
+	let mem: MemFileSystem;
+	let registration: vscode.Disposable;
+	let fileSystem: WorkspaceFileSystem;
+	let warnings: string[];
+
+	const loadConfig = async (): Promise<MergedSheafyConfig> => {
+		const warn = (message: string) => warnings.push(message);
+		const document = await readSheafyToml('/project', warn, fileSystem);
+		return resolveSheafyConfig('/project', 'project', DEFAULT_VSCODE_SETTINGS, document, null, warn, fileSystem);
+	};
+
+	setup(() => {
+		mem = new MemFileSystem(scheme);
+		registration = vscode.workspace.registerFileSystemProvider(scheme, mem, { isCaseSensitive: true });
+		fileSystem = new WorkspaceFileSystem(mem.uri('/project'));
+		warnings = [];
+		mem.addFiles({
+			'/project/sheafy.toml': '[sheafy]\nbundle_name = "out.md"\nignore_patterns = "*.tmp"\n',
+			'/project/.gitignore': '*.log\n',
+			'/project/debug.log': 'noise\n',
+			'/project/notes.tmp': 'scratch\n',
+			'/project/src/app.ts': 'export const app = 1;\n',
+			'/project/docs/.sheafyignore': 'draft.md\n',
+			'/project/docs/draft.md': 'wip\n',
+			'/project/docs/guide.md': '# Guide\n',
+		});
+	});
+
+	teardown(() => {
+		registration.dispose();
+	});
+
+	test('reads sheafy.toml and ignore files and walks the folder', async () => {
+		const config = await loadConfig();
+		assert.strictEqual(config.bundle_name, 'out.md');
+		assert.strictEqual(fileSystem.isLocal, false);
+		assert.deepStrictEqual((await discoverFiles('/project', config)).map(toPosixPath), [
+			'/project/.gitignore', '/project/docs/.sheafyignore', '/project/docs/guide.md', '/project/src/app.ts',
+		]);
+		assert.deepStrictEqual(warnings, []);
+	});
+
+	test('builds the bundle and writes it next to the files', async () => {
+		const config = await loadConfig();
+		const bundle = await buildBundle('.', config);
+		assert.match(bundle.output, /src\/app\.ts/);
+		assert.match(bundle.output, /export const app = 1;/);
+		assert.doesNotMatch(bundle.output, /wip|noise|scratch/);
+
+		await writeBundleFiles('/project/out.md', { partChunks: [['a'], ['b'], ['c']] }, fileSystem);
+		assert.strictEqual(mem.text('/project/out.part3.md'), 'c');
+		await writeBundleFiles('/project/out.md', bundle, fileSystem);
+		assert.strictEqual(mem.text('/project/out.md'), bundle.output);
+		assert.strictEqual(mem.text('/project/out.part1.md'), undefined); // Stale parts are removed
+	});
+
+	test('reports missing files with the codes of Node', async () => {
+		await assert.rejects(fileSystem.stat('/project/missing.ts'), (error: NodeJS.ErrnoException) => error.code === 'ENOENT');
+		await fileSystem.createDirectory('/project/exports/nested');
+		assert.strictEqual((await fileSystem.stat('/project/exports/nested')).isDirectory, true);
+		mem.delete(mem.uri('/project/sheafy.toml'));
+		assert.deepStrictEqual(await readSheafyToml('/project', () => undefined, fileSystem), { sheafy: null, profiles: {} });
+	});
+});
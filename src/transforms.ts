@@ -0,0 +1,262 @@
+// src/transforms.ts
+import ignore from 'ignore';
+
+export interface TransformSettings {
+    line_numbers: boolean; // Prefix lines with their line number in the original file
+    strip_comments: boolean;
+    strip_license_header: boolean; // Only the leading comment, if it mentions a license or copyright
+    collapse_blank_lines: boolean; // Runs of blank lines become a single one
+    head_lines: number | null; // Keep the first N lines of longer files...
+    tail_lines: number | null; // ...and/or the last N lines, with an elision marker in between
+}
+
+/** `settings` override the global transforms for files matching `patterns` (gitignore syntax). */
+export interface TransformRule {
+    patterns: string[];
+    settings: Partial<TransformSettings>;
+}
+
+export const NO_TRANSFORMS: TransformSettings = {
+    line_numbers: false,
+    strip_comments: false,
+    strip_license_header: false,
+    collapse_blank_lines: false,
+    head_lines: null,
+    tail_lines: null,
+};
+
+interface CommentSyntax {
+    line: string[];
+    block: Array<[string, string]>;
+    quotes: string[]; // String delimiters; comment markers inside strings are kept
+    markerAfterSpace?: boolean; // Line comments only start at the beginning of a word (shell's `$#`, YAML's `a#b`)
+}
+
+const C_LIKE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], quotes: ['"', "'", '`'] };
+const HASH: CommentSyntax = { line: ['#'], block: [], quotes: ['"', "'"] };
+const HASH_WORD: CommentSyntax = { ...HASH, markerAfterSpace: true };
+const MARKUP: CommentSyntax = { line: [], block: [['<!--', '-->']], quotes: [] };
+
+// Keyed by the language ids from getLanguageId; languages not listed are never stripped.
+const COMMENT_SYNTAX: { [languageId: string]: CommentSyntax } = {
+    typescript: C_LIKE, typescriptreact: C_LIKE, javascript: C_LIKE, javascriptreact: C_LIKE,
+    java: C_LIKE, csharp: C_LIKE, cpp: C_LIKE, c: C_LIKE, go: C_LIKE, swift: C_LIKE,
+    kotlin: C_LIKE, scala: C_LIKE, dart: C_LIKE,
+    rust: { line: ['//'], block: [['/*', '*/']], quotes: ['"'] }, // ' also starts lifetimes
+    php: { line: ['//', '#'], block: [['/*', '*/']], quotes: ['"', "'"] },
+    css: { line: [], block: [['/*', '*/']], quotes: ['"', "'"] },
+    scss: { line: ['//'], block: [['/*', '*/']], quotes: ['"', "'"] },
+    less: { line: ['//'], block: [['/*', '*/']], quotes: ['"', "'"] },
+    python: { line: ['#'], block: [], quotes: ['"""', "'''", '"', "'"] },
+    ruby: HASH, toml: HASH, graphql: HASH,
+    shellscript: HASH_WORD, yaml: HASH_WORD, perl: HASH_WORD, dockerfile: HASH_WORD,
+    sql: { line: ['--'], block: [['/*', '*/']], quotes: ["'", '"'] },
+    lua: { line: ['--'], block: [['--[[', ']]']], quotes: ['"', "'"] },
+    vb: { line: ["'"], block: [], quotes: ['"'] },
+    html: MARKUP, xml: MARKUP, vue: MARKUP, svelte: MARKUP, markdown: MARKUP,
+};
+
+const LICENSE_PATTERN = /licen[cs]e|copyright|spdx-license-identifier/i;
+
+interface Line {
+    number: number | null; // Line number in the original file; null for inserted lines
+    text: string;
+}
+
+function newlinesIn(text: string): string {
+    return text.replace(/[^\n]/g, '');
+}
+
+/** End of the string literal opened by `quote` at `start`; single-character quotes end at a newline. */
+function skipString(text: string, start: number, quote: string): number {
+    const endsAtNewline = quote.length === 1 && quote !== '`';
+    let i = start + quote.length;
+    while (i < text.length) {
+        if (text.startsWith(quote, i)) {
+            return i + quote.length;
+        }
+        if (text[i] === '\n' && endsAtNewline) {
+            return i;
+        }
+        i += text[i] === '\\' ? 2 : 1;
+    }
+    return text.length;
+}
+
+/**
+ * Scans `text` for comments. Returns the comment spans as [start, end) pairs; line comments
+ * end before their newline.
+ */
+function findComments(text: string, syntax: CommentSyntax): Array<[number, number]> {
+    const comments: Array<[number, number]> = [];
+    let i = 0;
+    while (i < text.length) {
+        const quote = syntax.quotes.find(q => text.startsWith(q, i));
+        if (quote) {
+            i = skipString(text, i, quote);
+            continue;
+        }
+        const block = syntax.block.find(([open]) => text.startsWith(open, i));
+        if (block) {
+            const close = text.indexOf(block[1], i + block[0].length);
+            const end = close === -1 ? text.length : close + block[1].length;
+            comments.push([i, end]);
+            i = end;
+            continue;
+        }
+        const atWordStart = i === 0 || /\s/.test(text[i - 1]);
+        if (syntax.line.some(marker => text.startsWith(marker, i)) && (!syntax.markerAfterSpace || atWordStart)) {
+            const newline = text.indexOf('\n', i);
+            const end = newline === -1 ? text.length : newline;
+            comments.push([i, end]);
+            i = end;
+            continue;
+        }
+        i++;
+    }
+    return comments;
+}
+
+// Removes the comment spans but keeps their newlines, so line i of the result is line i of `text`.
+function removeSpans(text: string, spans: Array<[number, number]>): string {
+    let result = '';
+    let position = 0;
+    for (const [start, end] of spans) {
+        result += text.slice(position, start) + newlinesIn(text.slice(start, end));
+        position = end;
+    }
+    return result + text.slice(position);
+}
+
+/** The comments that form the file's leading comment: consecutive comments without blank lines between them. */
+function leadingComments(text: string, comments: Array<[number, number]>): Array<[number, number]> {
+    const leading: Array<[number, number]> = [];
+    let position = 0;
+    for (const comment of comments) {
+        if (text.slice(position, comment[0]).trim() !== '') {
+            break;
+        }
+        // A blank line ends the header; a comment after it documents the code.
+        if (leading.length > 0 && /\n[ \t]*\n/.test(text.slice(position, comment[0]))) {
+            break;
+        }
+        leading.push(comment);
+        position = comment[1];
+    }
+    return leading;
+}
+
+function stripCommentLines(lines: Line[], languageId: string, settings: TransformSettings): Line[] {
+    const syntax = COMMENT_SYNTAX[languageId];
+    if (!syntax) {
+        return lines;
+    }
+    // A shebang line looks like a comment in most scripting languages but must stay.
+    const shebang = lines.length > 0 && lines[0].number !== null && lines[0].text.startsWith('#!') ? 1 : 0;
+    const body = lines.slice(shebang);
+    const text = body.map(line => line.text).join('\n');
+    const comments = findComments(text, syntax);
+
+    let spans: Array<[number, number]> = [];
+    if (settings.strip_comments) {
+        spans = comments;
+    } else {
+        const header = leadingComments(text, comments);
+        if (header.some(([start, end]) => LICENSE_PATTERN.test(text.slice(start, end)))) {
+            spans = header;
+        }
+    }
+    if (spans.length === 0) {
+        return lines;
+    }
+
+    const stripped = removeSpans(text, spans).split('\n');
+    const result: Line[] = lines.slice(0, shebang);
+    body.forEach((line, i) => {
+        if (stripped[i] === line.text) {
+            result.push(line);
+        } else if (stripped[i].trim() !== '') {
+            result.push({ number: line.number, text: stripped[i].trimEnd() }); // Code with a trailing comment
+        }
+        // Lines that only held comments are dropped.
+    });
+    // Don't leave the blank lines that separated a removed header from the code.
+    while (result.length > shebang && result[shebang].text.trim() === '' && spans[0][0] === 0) {
+        result.splice(shebang, 1);
+    }
+    return result;
+}
+
+function collapseBlankLines(lines: Line[]): Line[] {
+    return lines.filter((line, i) => line.text.trim() !== '' || i === 0 || lines[i - 1].text.trim() !== '');
+}
+
+function keepHeadAndTail(lines: Line[], head: number | null, tail: number | null): Line[] {
+    const headCount = head ?? 0;
+    const tailCount = tail ?? 0;
+    if (lines.length <= headCount + tailCount) {
+        return lines;
+    }
+    const omitted = lines.length - headCount - tailCount;
+    const marker: Line = { number: null, text: `... ${omitted} ${omitted === 1 ? 'line' : 'lines'} omitted ...` };
+    return [...lines.slice(0, headCount), marker, ...lines.slice(lines.length - tailCount)];
+}
+
+function addLineNumbers(lines: Line[]): Line[] {
+    const width = String(Math.max(0, ...lines.map(line => line.number ?? 0))).length;
+    return lines.map(line => ({
+        number: line.number,
+        text: `${(line.number === null ? '' : String(line.number)).padStart(width)} | ${line.text}`.trimEnd(),
+    }));
+}
+
+/**
+ * Applies `settings` to a file's content in a fixed order: comment stripping, blank line
+ * collapsing, head/tail truncation, line numbers. `firstLine` is the number of the first line
+ * of `content` (for line-range exports). Line numbers always refer to the original file.
+ */
+export function applyTransforms(content: string, languageId: string, settings: TransformSettings, firstLine = 1): string {
+    const isTransformed = settings.line_numbers || settings.strip_comments || settings.strip_license_header ||
+        settings.collapse_blank_lines || settings.head_lines !== null || settings.tail_lines !== null;
+    if (!isTransformed || content === '') {
+        return content;
+    }
+    const trailingNewline = content.endsWith('\n');
+    let lines: Line[] = (trailingNewline ? content.slice(0, -1) : content)
+        .split('\n')
+        .map((text, i) => ({ number: firstLine + i, text }));
+
+    if (settings.strip_comments || settings.strip_license_header) {
+        lines = stripCommentLines(lines, languageId, settings);
+    }
+    if (settings.collapse_blank_lines) {
+        lines = collapseBlankLines(lines);
+    }
+    if (settings.head_lines !== null || settings.tail_lines !== null) {
+        lines = keepHeadAndTail(lines, settings.head_lines, settings.tail_lines);
+    }
+    if (settings.line_numbers) {
+        lines = addLineNumbers(lines);
+    }
+    return lines.map(line => line.text).join('\n') + (trailingNewline ? '\n' : '');
+}
+
+/**
+ * Returns a function that resolves the transforms for a file (path relative to the project root):
+ * the global settings, overridden by every matching rule in order.
+ */
+export function createTransformResolver(defaults: TransformSettings, rules: TransformRule[]): (relPath: string) => TransformSettings {
+    const matchers = rules.map(rule => ({ filter: ignore().add(rule.patterns), settings: rule.settings }));
+    return relPath => {
+        let settings = defaults;
+        if (!ignore.isPathValid(relPath)) {
+            return settings; // Outside the project; no rule can match
+        }
+        for (const { filter, settings: overrides } of matchers) {
+            if (filter.ignores(relPath)) {
+                settings = { ...settings, ...overrides };
+            }
+        }
+        return settings;
+    };
+}
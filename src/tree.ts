@@ -0,0 +1,91 @@
+// src/tree.ts
+import { formatBytes } from './utils';
+
+export interface TreeEntry {
+    path: string; // Forward-slash path as shown in the bundle
+    bytes?: number;
+    lines?: number;
+}
+
+interface TreeNode {
+    name: string;
+    children: Map<string, TreeNode>;
+    entry?: TreeEntry; // Set for files
+}
+
+function buildTree(entries: TreeEntry[]): TreeNode {
+    const root: TreeNode = { name: '', children: new Map() };
+    for (const entry of entries) {
+        let node = root;
+        for (const segment of entry.path.split('/')) {
+            let child = node.children.get(segment);
+            if (!child) {
+                child = { name: segment, children: new Map() };
+                node.children.set(segment, child);
+            }
+            node = child;
+        }
+        node.entry = entry;
+    }
+    return root;
+}
+
+function countFiles(node: TreeNode): number {
+    let count = node.entry ? 1 : 0;
+    for (const child of node.children.values()) {
+        count += countFiles(child);
+    }
+    return count;
+}
+
+function describe(entry: TreeEntry): string {
+    const details: string[] = [];
+    if (entry.bytes !== undefined) {
+        details.push(formatBytes(entry.bytes));
+    }
+    if (entry.lines !== undefined) {
+        details.push(`${entry.lines} ${entry.lines === 1 ? 'line' : 'lines'}`);
+    }
+    return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+function sortedChildren(node: TreeNode): TreeNode[] {
+    // Directories first, then files, each alphabetically.
+    return [...node.children.values()].sort((a, b) => {
+        const aIsDir = a.children.size > 0;
+        const bIsDir = b.children.size > 0;
+        if (aIsDir !== bIsDir) {
+            return aIsDir ? -1 : 1;
+        }
+        return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+    });
+}
+
+function renderNode(node: TreeNode, prefix: string, depth: number, maxDepth: number, lines: string[]): void {
+    const children = sortedChildren(node);
+    children.forEach((child, i) => {
+        const isLast = i === children.length - 1;
+        const connector = isLast ? '└── ' : '├── ';
+        if (child.children.size === 0) {
+            lines.push(`${prefix}${connector}${child.name}${child.entry ? describe(child.entry) : ''}`);
+            return;
+        }
+        if (depth >= maxDepth) {
+            const fileCount = countFiles(child);
+            lines.push(`${prefix}${connector}${child.name}/ (${fileCount} ${fileCount === 1 ? 'file' : 'files'})`);
+            return;
+        }
+        lines.push(`${prefix}${connector}${child.name}/`);
+        renderNode(child, prefix + (isLast ? '    ' : '│   '), depth + 1, maxDepth, lines);
+    });
+}
+
+/**
+ * Renders an ASCII directory tree of `entries`. Directories deeper than `maxDepth` levels are
+ * collapsed into a single line with their file count; `null` means unlimited depth.
+ */
+export function renderTree(rootLabel: string, entries: TreeEntry[], maxDepth: number | null): string {
+    const lines = [rootLabel];
+    renderNode(buildTree(entries), '', 1, maxDepth ?? Infinity, lines);
+    return lines.join('\n');
+}
@@ -0,0 +1,106 @@
+// src/types.ts
+
+export type ExportDestination = 'clipboard' | 'tempTab' | 'rootDir' | 'workingDir';
+
+export type BundleFormat = 'markdown' | 'xml' | 'json' | 'plain' | 'custom';
+
+/** How files are ordered for keeping once a token/byte budget is exceeded (ties within a priority_patterns tier). */
+export type BudgetPriority = 'order' | 'smallest_first' | 'most_recent';
+
+/** What happens to the first file that does not fit into the remaining budget. */
+export type BudgetAction = 'drop' | 'truncate';
+
+/** Built-in secret detectors that can be enabled with `secret_detectors`. */
+export type SecretDetector = 'pem' | 'aws' | 'jwt' | 'entropy' | 'dotenv';
+
+/** `redact` replaces secrets, `block` refuses to export when any are found, `off` disables scanning. */
+export type SecretMode = 'redact' | 'block' | 'off';
+
+/** A single file's contribution to the bundle, after formatting. */
+export interface FileSection {
+    filePath: string; // Absolute path
+    relPath: string; // Relative to basePath, forward slashes (used for filtering/priorities)
+    displayPath: string; // Value used for {relpath}
+    lang: string;
+    content?: string; // Exported content; only kept while the budget or split_at may cut the section, see needsSectionContent
+    contentBytes: number; // Size of the exported content, for the tree details
+    contentLines: number;
+    note?: string; // Placeholder text for skipped/unreadable files; such sections are never truncated
+    diff?: string; // Unified diff rendered after the content (git export with diffs appended)
+    skipReason?: string; // Why the content was left out (e.g. "binary"), set along with `note`
+    fileSize: number | null; // Size of the file (or of the in-memory content); null if it could not be read
+    template?: string; // Template of the matching template rule, if any
+    placeholders?: { [name: string]: string }; // File details for template placeholders, see SectionInput
+    formatted: string;
+    bytes: number; // Size of the formatted section
+    tokens: number; // Estimated tokens of the formatted section
+    mtimeMs: number;
+}
+
+export interface CutFile {
+    relPath: string;
+    action: 'dropped' | 'truncated';
+    tokens: number; // Estimated tokens of the original section
+}
+
+export interface BudgetReport {
+    maxTokens: number | null;
+    maxBytes: number | null;
+    totalTokens: number; // Estimated tokens of the bundle that was actually produced
+    totalBytes: number;
+    cutFiles: CutFile[];
+}
+
+export interface SecretFinding {
+    filePath: string; // Absolute path
+    relPath: string; // As shown in the bundle
+    line: number; // 1-based line in the file (or in the diff, see inDiff)
+    kind: string; // Detector or custom pattern that matched, e.g. "aws-key"
+    inDiff?: boolean;
+}
+
+/** Size limit of one part of a split bundle, see `split_at`. */
+export interface SplitLimit {
+    unit: 'bytes' | 'tokens';
+    limit: number;
+}
+
+/** The ignore or include rule that excluded a path. */
+export interface ExclusionRule {
+    source: string; // e.g. ".gitignore:12", "built-in defaults", "sheafy.toml include_extensions"
+    pattern: string; // e.g. "dist/"
+}
+
+/** An import found by dependency-following export: `from` imports `to`. */
+export interface DependencyEdge {
+    from: string; // Absolute path
+    to: string; // Absolute path
+}
+
+/** One candidate path of a preview: a file, or a directory that was skipped as a whole. */
+export interface ReportEntry {
+    path: string; // Relative to the project root, forward slashes; directories end with "/"
+    status: 'included' | 'skipped';
+    reason?: string; // Why the path was skipped, or a remark on an included file (e.g. truncated)
+    rule?: ExclusionRule; // Set for paths skipped by ignore or include rules
+    size: number | null; // Bytes on disk; null for directories
+    tokens: number | null; // Estimated tokens of the file's section in the bundle; null if not in the bundle
+}
+
+export interface ExportReport {
+    basePath: string;
+    profile: string | null;
+    entries: ReportEntry[]; // In the order of a directory walk
+    totals: {
+        includedFiles: number;
+        skippedFiles: number;
+        skippedDirectories: number;
+        includedSize: number; // Bytes on disk of the included files
+        bundleTokens: number; // Estimated tokens of the whole bundle, including prologue and epilogue
+        bundleBytes: number;
+        parts: number; // Parts the bundle would be split into at split_at; 1 if it fits
+    };
+    budget: BudgetReport;
+    secrets: number; // Secrets that would be redacted (or that would block the export)
+    blocked: boolean; // The export would be blocked by secret_mode = "block"
+}
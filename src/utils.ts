@@ -0,0 +1,184 @@
+// src/utils.ts
+
+/**
+ * Rough, dependency-free token estimate. Words are counted as one token per ~4 characters
+ * (BPE tokenizers split long identifiers), every punctuation/symbol character as one token.
+ * This deliberately errs on the high side so budgets are not overshot. It runs over every
+ * section of large bundles, so it scans char codes instead of matching a regex.
+ */
+export function estimateTokens(text: string): number {
+    let tokens = 0;
+    let word = 0; // Length of the word being scanned
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (isWordCode(code)) {
+            word++;
+            continue;
+        }
+        if (word > 0) {
+            tokens += word > 4 ? Math.ceil(word / 4) : 1;
+            word = 0;
+        }
+        if (!isSpaceCode(code)) {
+            tokens++;
+        }
+    }
+    if (word > 0) {
+        tokens += word > 4 ? Math.ceil(word / 4) : 1;
+    }
+    return tokens;
+}
+
+// [A-Za-z0-9_]
+function isWordCode(code: number): boolean {
+    return (code >= 97 && code <= 122) || (code >= 65 && code <= 90) || (code >= 48 && code <= 57) || code === 95;
+}
+
+// \s in a regular expression
+function isSpaceCode(code: number): boolean {
+    return (code >= 9 && code <= 13) || code === 32 || code === 0xa0 || code === 0x1680 || (code >= 0x2000 && code <= 0x200a)
+        || code === 0x2028 || code === 0x2029 || code === 0x202f || code === 0x205f || code === 0x3000 || code === 0xfeff;
+}
+
+export function byteLength(text: string): number {
+    return Buffer.byteLength(text, 'utf-8');
+}
+
+// A trailing newline doesn't start another line.
+export function countLines(text: string): number {
+    return text === '' ? 0 : text.replace(/\n$/, '').split('\n').length;
+}
+
+/**
+ * Returns the longest prefix of `text` (cut at a line boundary when possible) whose
+ * token estimate and byte size stay within the given limits.
+ */
+export function truncateToLimits(text: string, maxTokens: number, maxBytes: number): string {
+    const fits = (candidate: string) => estimateTokens(candidate) <= maxTokens && byteLength(candidate) <= maxBytes;
+    if (fits(text)) {
+        return text;
+    }
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (fits(text.slice(0, mid))) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    const prefix = text.slice(0, low);
+    const lastNewline = prefix.lastIndexOf('\n');
+    return lastNewline > 0 ? prefix.slice(0, lastNewline) : prefix;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${Math.round(bytes / 1024)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Parses a size such as `1048576`, `"512KB"` or `"2 MB"` into bytes. Returns null if invalid.
+ */
+export function parseByteSize(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value >= 0 ? Math.floor(value) : null;
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|kib|mb|mib|gb|gib)?$/i);
+    if (!match) {
+        return null;
+    }
+    const units: { [key: string]: number } = { b: 1, kb: 1024, kib: 1024, mb: 1024 ** 2, mib: 1024 ** 2, gb: 1024 ** 3, gib: 1024 ** 3 };
+    return Math.floor(parseFloat(match[1]) * units[(match[2] || 'b').toLowerCase()]);
+}
+
+/**
+ * Replaces `{name}` placeholders in a single pass, so substituted values (e.g. file content
+ * containing "{relpath}") are never expanded again. Unknown placeholders are left as-is.
+ */
+export function renderTemplate(template: string, values: { [name: string]: string }): string {
+    return template.replace(/{(\w+)}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
+}
+
+export function toPosixPath(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
+
+// Orders paths like a directory walk: by name, one path segment at a time.
+export function compareWalkOrder(a: string, b: string, separator: string): number {
+    const aSegments = a.split(separator);
+    const bSegments = b.split(separator);
+    for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+        if (aSegments[i] !== bSegments[i]) {
+            return aSegments[i] < bSegments[i] ? -1 : 1;
+        }
+    }
+    return aSegments.length - bSegments.length;
+}
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Returns a function that runs tasks with at most `limit` of them pending at a time. Waiting
+ * tasks start in the order they were passed in.
+ */
+export function createLimiter(limit: number): Limiter {
+    let active = 0;
+    let waiting: Array<() => void> = [];
+    let next = 0; // Index of the next waiting task; shifting a long queue would be quadratic
+    const release = () => {
+        if (next < waiting.length) {
+            waiting[next++](); // The slot passes straight to the waiting task
+        } else {
+            active--;
+            waiting = [];
+            next = 0;
+        }
+    };
+    return async task => {
+        if (active < limit) {
+            active++;
+        } else {
+            await new Promise<void>(resolve => waiting.push(resolve));
+        }
+        try {
+            return await task();
+        } finally {
+            release();
+        }
+    };
+}
+
+/**
+ * Calls `fn` on `items`, at most `limit` calls at a time, and yields the results in the order of
+ * `items` whichever call finishes first. Calls run at most a few times `limit` items ahead of the
+ * one being yielded, so a slow consumer holds back the calls instead of piling up their results.
+ * A failed call ends the iteration with its error when its turn comes.
+ */
+export async function* mapOrdered<T, R>(items: readonly T[], limit: number, fn: (item: T, index: number) => Promise<R>): AsyncGenerator<R> {
+    const run = createLimiter(limit);
+    const ahead = limit * 4; // Room for calls to overtake one that takes long
+    const pending = new Map<number, Promise<R>>();
+    let started = 0;
+    for (let i = 0; i < items.length; i++) {
+        for (; started < Math.min(items.length, i + ahead); started++) {
+            const index = started;
+            const result = run(() => fn(items[index], index));
+            result.catch(() => undefined); // Rethrown when its turn comes, or dropped if the consumer stops first
+            pending.set(index, result);
+        }
+        const result = pending.get(i)!;
+        pending.delete(i);
+        yield await result;
+    }
+}
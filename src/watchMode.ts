@@ -0,0 +1,268 @@
+// src/watchMode.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { bundlePartName, MergedSheafyConfig, SHEAFY_TOML_FILENAME } from './config';
+import { invalidateSheafyTomlCache, loadSheafyConfig } from './sheafyConfig';
+import { exportContent } from './fileProcessor';
+import { discoverFiles, SectionCache } from './bundler';
+import { createPathFilter } from './ignoreRules';
+import { ExportDestination } from './types';
+import { compareWalkOrder } from './utils';
+import { uriToPath } from './workspaceFileSystem';
+
+// Saves usually come in bursts (save all, formatters, git checkouts); rebuild once they settle.
+const REBUILD_DELAY_MS = 500;
+
+// Changes to these files can change which files are exported, so they trigger a full rescan.
+const RULE_FILES = new Set([SHEAFY_TOML_FILENAME, '.gitignore', '.sheafyignore']);
+
+const FILE_DESTINATIONS: ExportDestination[] = ['rootDir', 'workingDir'];
+
+const noProgress: vscode.Progress<{ message?: string; increment?: number }> = { report: () => undefined };
+
+// Whether `filePath` is a part of the split bundle at `outputPath`, e.g. bundle.part2.md of bundle.md.
+function isPartOf(filePath: string, outputPath: string): boolean {
+    const [prefix, suffix] = bundlePartName(outputPath, '\0').split('\0');
+    return filePath.startsWith(prefix) && filePath.endsWith(suffix) && /^\d+$/.test(filePath.slice(prefix.length, filePath.length - suffix.length));
+}
+
+function isInside(filePath: string, dirPath: string): boolean {
+    return filePath.startsWith(dirPath + path.sep);
+}
+
+/**
+ * Keeps the bundle file of one workspace folder up to date: file system events update the list of
+ * exported files, and a debounced rebuild re-reads only the files whose mtime or size changed.
+ */
+export class BundleWatcher implements vscode.Disposable {
+    private rootUri: vscode.Uri | undefined;
+    private config: MergedSheafyConfig | undefined; // With the file destinations only
+    private files: string[] = []; // Sorted like discoverFiles
+    private passesFilters: ((absFilePath: string) => Promise<boolean>) | undefined;
+    private readonly cache: SectionCache = new Map();
+    private readonly created = new Set<string>();
+    private readonly deleted = new Set<string>();
+    private needsRescan = true;
+    private timer: NodeJS.Timeout | undefined;
+    private rebuilding = false;
+    private rebuildAgain = false;
+    private rebuildCancellation: vscode.CancellationTokenSource | undefined;
+    private hasProblem = false; // The last rebuild failed; reported once until a rebuild succeeds
+    private watchDisposables: vscode.Disposable[] = [];
+    private readonly statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+
+    constructor() {
+        this.statusBarItem.command = 'sheafy.toggleWatchMode';
+    }
+
+    get isWatching(): boolean {
+        return this.rootUri !== undefined;
+    }
+
+    async start(rootUri: vscode.Uri): Promise<void> {
+        this.stop();
+        this.rootUri = rootUri;
+        this.needsRescan = true;
+
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(rootUri, '**/*'));
+        this.watchDisposables = [
+            watcher,
+            watcher.onDidCreate(uri => this.onFileEvent(uri, 'created')),
+            watcher.onDidChange(uri => this.onFileEvent(uri, 'changed')),
+            watcher.onDidDelete(uri => this.onFileEvent(uri, 'deleted')),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('sheafy', rootUri)) {
+                    this.needsRescan = true;
+                    this.scheduleRebuild();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(event => {
+                if (event.removed.some(folder => folder.uri.toString() === rootUri.toString())) {
+                    this.stop();
+                }
+            }),
+        ];
+        this.updateStatus('$(sync~spin)', 'Building the bundle...');
+        this.statusBarItem.show();
+        await this.rebuild();
+    }
+
+    stop(): void {
+        this.rebuildCancellation?.cancel();
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.watchDisposables.forEach(disposable => disposable.dispose());
+        this.watchDisposables = [];
+        this.rootUri = undefined;
+        this.config = undefined;
+        this.files = [];
+        this.cache.clear();
+        this.created.clear();
+        this.deleted.clear();
+        this.hasProblem = false;
+        this.statusBarItem.hide();
+    }
+
+    private outputPaths(): string[] {
+        if (!this.config) {
+            return [];
+        }
+        return this.config.exportDestinations.map(dest =>
+            path.join(dest === 'rootDir' ? this.config!.basePath : this.config!.working_dir, this.config!.bundle_name));
+    }
+
+    // The bundle file, or one of its parts if it is split at split_at.
+    private isOutputPath(filePath: string): boolean {
+        return this.outputPaths().some(outputPath => filePath === outputPath || isPartOf(filePath, outputPath));
+    }
+
+    private onFileEvent(uri: vscode.Uri, kind: 'created' | 'changed' | 'deleted'): void {
+        const filePath = uriToPath(uri);
+        // The bundle itself is excluded from exports; rebuilding on its own writes would never stop.
+        if (!this.rootUri || this.isOutputPath(filePath) || path.relative(uriToPath(this.rootUri), filePath).split(path.sep).includes('.git')) {
+            return;
+        }
+        if (RULE_FILES.has(path.basename(filePath))) {
+            if (path.basename(filePath) === SHEAFY_TOML_FILENAME) {
+                invalidateSheafyTomlCache(vscode.Uri.joinPath(uri, '..')); // Don't rebuild with the cached old contents
+            }
+            this.needsRescan = true;
+        } else if (kind === 'created') {
+            this.deleted.delete(filePath);
+            this.created.add(filePath);
+        } else if (kind === 'deleted') {
+            this.created.delete(filePath);
+            this.deleted.add(filePath);
+        } else if (!this.files.includes(filePath)) {
+            return; // Not exported, so the bundle doesn't change
+        }
+        this.scheduleRebuild();
+    }
+
+    private scheduleRebuild(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            void this.rebuild();
+        }, REBUILD_DELAY_MS);
+    }
+
+    private async rescan(rootUri: vscode.Uri): Promise<void> {
+        const config = await loadSheafyConfig(rootUri);
+        const destinations = config.exportDestinations.filter(dest => FILE_DESTINATIONS.includes(dest));
+        // Watch mode only writes files; clipboard and tab destinations would fire on every save.
+        this.config = { ...config, exportDestinations: destinations.length > 0 ? destinations : ['rootDir'] };
+        this.files = await discoverFiles(config.basePath, config);
+        this.passesFilters = await createPathFilter(config);
+        this.cache.clear();
+        this.created.clear();
+        this.deleted.clear();
+        this.needsRescan = false;
+    }
+
+    // Applies the queued creations and deletions to the file list without walking the tree.
+    private async applyFileEvents(): Promise<void> {
+        for (const filePath of this.deleted) {
+            this.files = this.files.filter(file => file !== filePath && !isInside(file, filePath));
+            this.cache.delete(filePath);
+        }
+        this.deleted.clear();
+        for (const filePath of this.created) {
+            let stat;
+            try {
+                stat = await this.config!.fileSystem.stat(filePath);
+            } catch {
+                continue; // Already gone again
+            }
+            if (stat.isDirectory) {
+                // A whole directory appeared (e.g. a checkout or copy); its files may not all get events.
+                this.needsRescan = true;
+                return;
+            }
+            if (!this.files.includes(filePath) && await this.passesFilters!(filePath)) {
+                this.files.push(filePath);
+            }
+        }
+        this.created.clear();
+        this.files.sort((a, b) => compareWalkOrder(a, b, path.sep));
+    }
+
+    private async rebuild(): Promise<void> {
+        if (this.rebuilding) {
+            this.rebuildAgain = true;
+            return;
+        }
+        const rootUri = this.rootUri;
+        if (!rootUri) {
+            return;
+        }
+        this.rebuilding = true;
+        this.rebuildCancellation = new vscode.CancellationTokenSource();
+        this.updateStatus('$(sync~spin)', 'Updating the bundle...');
+        try {
+            if (!this.needsRescan) {
+                await this.applyFileEvents();
+            }
+            if (this.needsRescan) {
+                await this.rescan(rootUri);
+            }
+            const config = this.config!;
+            const outcome = await exportContent(config.basePath, config, noProgress, this.rebuildCancellation.token, {
+                files: this.files.map(filePath => ({ filePath })),
+                applyFilters: false, // Already filtered
+                cache: this.cache,
+            }, false); // Reported below, once until a rebuild succeeds
+            if (this.rootUri !== rootUri) {
+                return; // Stopped or restarted meanwhile
+            }
+            const failures = outcome.results.filter(result => !result.success);
+            if (outcome.blocked) {
+                this.reportProblem(`Not updated: found ${outcome.secrets.length} secret(s) and secret_mode is "block".`);
+            } else if (failures.length > 0) {
+                this.reportProblem(`Could not update the bundle: ${failures.map(failure => failure.message).join(' ')}`);
+            } else {
+                this.hasProblem = false;
+                const written = outcome.results.map(result => result.filePath).join(', ');
+                this.updateStatus('$(eye)', `${written} updated at ${new Date().toLocaleTimeString()} (~${outcome.budget.totalTokens.toLocaleString()} tokens, ${outcome.files.length} files).`);
+            }
+        } catch (error: any) {
+            if (!(error instanceof vscode.CancellationError)) {
+                console.error('Sheafy: Watch mode rebuild failed:', error);
+                if (this.rootUri === rootUri) {
+                    this.reportProblem(`Could not update the bundle: ${error.message}`);
+                }
+            }
+        } finally {
+            this.rebuildCancellation.dispose();
+            this.rebuildCancellation = undefined;
+            this.rebuilding = false;
+        }
+        if (this.rebuildAgain) {
+            this.rebuildAgain = false;
+            await this.rebuild();
+        }
+    }
+
+    private reportProblem(detail: string): void {
+        this.updateStatus('$(warning)', detail);
+        if (!this.hasProblem) {
+            vscode.window.showWarningMessage(`Sheafy: Watch mode: ${detail}`);
+        }
+        this.hasProblem = true;
+    }
+
+    private updateStatus(icon: string, detail: string): void {
+        const folderName = this.config?.root_name ?? (this.rootUri ? path.basename(uriToPath(this.rootUri)) : '');
+        this.statusBarItem.text = `${icon} Sheafy`;
+        this.statusBarItem.tooltip = `Sheafy is watching ${folderName}. ${detail}\nClick to stop watching.`;
+    }
+
+    dispose(): void {
+        this.stop();
+        this.statusBarItem.dispose();
+    }
+}
@@ -0,0 +1,144 @@
+// src/workspaceFileSystem.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DirectoryEntry, FileContent, FileStat, FileSystem, nodeFileSystem } from './fileSystem';
+import { toPosixPath } from './utils';
+
+// vscode.FileSystemError codes with their Node counterparts, which the export core checks for.
+const NODE_ERROR_CODES: { [code: string]: string } = {
+    FileNotFound: 'ENOENT',
+    FileNotADirectory: 'ENOTDIR',
+    FileIsADirectory: 'EISDIR',
+    FileExists: 'EEXIST',
+    NoPermissions: 'EACCES',
+};
+
+function toNodeError(error: any): Error {
+    if (!(error instanceof vscode.FileSystemError)) {
+        return error;
+    }
+    const nodeError: NodeJS.ErrnoException = new Error(error.message);
+    nodeError.code = NODE_ERROR_CODES[error.code] ?? error.code;
+    return nodeError;
+}
+
+/**
+ * The path of `uri` as the export core uses it: the file system path of file: URIs, and the
+ * URI's path for every other scheme.
+ */
+export function uriToPath(uri: vscode.Uri): string {
+    return uri.scheme === 'file' ? uri.fsPath : uri.path;
+}
+
+// Maps a path back to a URI with the scheme and authority of `rootUri`. On Windows, path.resolve
+// prefixes the paths of other schemes with the current drive, which is not part of them.
+function pathToUriLike(rootUri: vscode.Uri, filePath: string): vscode.Uri {
+    if (rootUri.scheme === 'file') {
+        return vscode.Uri.file(filePath);
+    }
+    const uriPath = toPosixPath(filePath).replace(/^[a-zA-Z]:(?=\/)/, '');
+    return rootUri.with({ path: uriPath, query: '', fragment: '' });
+}
+
+function isSameOrInside(parent: string, child: string): boolean {
+    const rel = path.relative(parent, child);
+    return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+/**
+ * The URI of a path produced by the export core (e.g. of a secret finding), in the workspace
+ * folder that contains it. Paths outside every folder are taken as local files.
+ */
+export function pathToUri(filePath: string): vscode.Uri {
+    const folder = (vscode.workspace.workspaceFolders ?? [])
+        .filter(candidate => isSameOrInside(uriToPath(candidate.uri), filePath))
+        .sort((a, b) => b.uri.path.length - a.uri.path.length)[0];
+    return folder ? pathToUriLike(folder.uri, filePath) : vscode.Uri.file(filePath);
+}
+
+/**
+ * Implements the export core's FileSystem on vscode.workspace.fs for the files of `rootUri`, so
+ * exports work the same in local, remote and virtual workspaces. Paths are those of uriToPath.
+ */
+export class WorkspaceFileSystem implements FileSystem {
+    // Remote workspaces have file: URIs in the extension host that runs next to them; any other
+    // scheme (vscode-remote: seen from the UI side included) is only reachable through the API.
+    readonly isLocal: boolean;
+
+    constructor(private readonly rootUri: vscode.Uri) {
+        this.isLocal = rootUri.scheme === 'file';
+    }
+
+    toUri(filePath: string): vscode.Uri {
+        return pathToUriLike(this.rootUri, filePath);
+    }
+
+    async stat(filePath: string): Promise<FileStat> {
+        try {
+            const stat = await vscode.workspace.fs.stat(this.toUri(filePath));
+            return {
+                isFile: (stat.type & vscode.FileType.File) !== 0,
+                isDirectory: (stat.type & vscode.FileType.Directory) !== 0,
+                size: stat.size,
+                mtimeMs: stat.mtime,
+            };
+        } catch (error: any) {
+            throw toNodeError(error);
+        }
+    }
+
+    async readFile(filePath: string): Promise<Buffer> {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(this.toUri(filePath));
+            return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        } catch (error: any) {
+            throw toNodeError(error);
+        }
+    }
+
+    async readDirectory(dirPath: string): Promise<DirectoryEntry[]> {
+        try {
+            const entries = await vscode.workspace.fs.readDirectory(this.toUri(dirPath));
+            // A link to a directory has the SymbolicLink bit set as well; links are not followed.
+            return entries.map(([name, type]) => ({ name, isDirectory: type === vscode.FileType.Directory }));
+        } catch (error: any) {
+            throw toNodeError(error);
+        }
+    }
+
+    async writeFile(filePath: string, content: FileContent): Promise<void> {
+        // vscode.workspace.fs only writes whole files; local folders are streamed to instead.
+        if (this.rootUri.scheme === 'file') {
+            return nodeFileSystem.writeFile(filePath, content);
+        }
+        let text = '';
+        if (typeof content === 'string') {
+            text = content;
+        } else {
+            for await (const piece of content) {
+                text += piece;
+            }
+        }
+        try {
+            await vscode.workspace.fs.writeFile(this.toUri(filePath), Buffer.from(text, 'utf-8'));
+        } catch (error: any) {
+            throw toNodeError(error);
+        }
+    }
+
+    async deleteFile(filePath: string): Promise<void> {
+        try {
+            await vscode.workspace.fs.delete(this.toUri(filePath), { recursive: false, useTrash: false });
+        } catch (error: any) {
+            throw toNodeError(error);
+        }
+    }
+
+    async createDirectory(dirPath: string): Promise<void> {
+        try {
+            await vscode.workspace.fs.createDirectory(this.toUri(dirPath));
+        } catch (error: any) {
+            throw toNodeError(error);
+        }
+    }
+}